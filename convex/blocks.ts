@@ -0,0 +1,142 @@
+import { v } from "convex/values";
+import { mutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { endChatSession } from "./messages";
+
+/**
+ * Check if either user has blocked the other
+ */
+export async function isBlocked(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  otherUserId: Id<"users">
+) {
+  const block = await ctx.db
+    .query("blocks")
+    .withIndex("by_pair", (q) => q.eq("blockerId", userId).eq("blockedId", otherUserId))
+    .first();
+  if (block) return true;
+
+  const reverseBlock = await ctx.db
+    .query("blocks")
+    .withIndex("by_pair", (q) => q.eq("blockerId", otherUserId).eq("blockedId", userId))
+    .first();
+  return reverseBlock !== null;
+}
+
+/**
+ * Get the IDs of everyone the user has blocked or been blocked by
+ */
+export async function getBlockedUserIds(ctx: QueryCtx, userId: Id<"users">) {
+  const blocked = await ctx.db
+    .query("blocks")
+    .withIndex("by_blocker", (q) => q.eq("blockerId", userId))
+    .collect();
+  const blockedBy = await ctx.db
+    .query("blocks")
+    .withIndex("by_blocked", (q) => q.eq("blockedId", userId))
+    .collect();
+
+  return new Set<Id<"users">>([
+    ...blocked.map((b) => b.blockedId),
+    ...blockedBy.map((b) => b.blockerId),
+  ]);
+}
+
+/**
+ * Block a user and cut off everything still open between the pair
+ */
+export async function blockUser(
+  ctx: MutationCtx,
+  blockerId: Id<"users">,
+  blockedId: Id<"users">
+) {
+  const existingBlock = await ctx.db
+    .query("blocks")
+    .withIndex("by_pair", (q) => q.eq("blockerId", blockerId).eq("blockedId", blockedId))
+    .first();
+
+  if (!existingBlock) {
+    await ctx.db.insert("blocks", {
+      blockerId,
+      blockedId,
+      createdAt: Date.now(),
+    });
+  }
+
+  const now = Date.now();
+
+  // End any open chat between the pair (sessions store the pair in either order)
+  for (const [user1Id, user2Id] of [[blockerId, blockedId], [blockedId, blockerId]]) {
+    const sessions = await ctx.db
+      .query("chatSessions")
+      .withIndex("by_users", (q) => q.eq("user1Id", user1Id).eq("user2Id", user2Id))
+      .filter((q) => q.neq(q.field("status"), "ended"))
+      .collect();
+
+    for (const session of sessions) {
+      await endChatSession(ctx, session);
+    }
+  }
+
+  // Decline any pending chat requests between the pair
+  const pendingRequests = await ctx.db
+    .query("chatRequests")
+    .withIndex("by_status", (q) => q.eq("status", "pending"))
+    .filter((q) =>
+      q.or(
+        q.and(
+          q.eq(q.field("fromUserId"), blockerId),
+          q.eq(q.field("toUserId"), blockedId)
+        ),
+        q.and(
+          q.eq(q.field("fromUserId"), blockedId),
+          q.eq(q.field("toUserId"), blockerId)
+        )
+      )
+    )
+    .collect();
+
+  for (const request of pendingRequests) {
+    await ctx.db.patch(request._id, {
+      status: "declined",
+      respondedAt: now,
+    });
+  }
+}
+
+/**
+ * Block the other participant of a chat session
+ * Works during speed dating too, before the other user's profile is revealed
+ */
+export const block = mutation({
+  args: {
+    chatSessionId: v.id("chatSessions"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const chatSession = await ctx.db.get(args.chatSessionId);
+    if (!chatSession) throw new Error("Chat session not found");
+
+    // Verify user is part of this chat
+    if (chatSession.user1Id !== user._id && chatSession.user2Id !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    const otherUserId =
+      chatSession.user1Id === user._id ? chatSession.user2Id : chatSession.user1Id;
+
+    await blockUser(ctx, user._id, otherUserId);
+
+    return { success: true };
+  },
+});
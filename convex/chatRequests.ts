@@ -1,6 +1,67 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { mutation, query, internalMutation, QueryCtx } from "./_generated/server";
 import { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { isBlocked } from "./blocks";
+import { assertAccountActive, isAccountActive } from "./moderation";
+import { getPhotoUrls } from "./profile";
+import { notify } from "./notifications";
+import { insertSystemMessage } from "./messages";
+import { sendPush } from "./push";
+
+const DEFAULT_REQUEST_TTL_HOURS = 24;
+const DEFAULT_DECLINE_COOLDOWN_HOURS = 24;
+
+// Only email about requests still unanswered after this delay
+const REQUEST_EMAIL_DELAY_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Read a duration in hours from an env variable, falling back to a default
+ */
+function getHoursFromEnv(name: string, defaultHours: number) {
+  const hours = Number(process.env[name]);
+  const configuredHours = Number.isFinite(hours) && hours >= 0 ? hours : defaultHours;
+  return configuredHours * 60 * 60 * 1000;
+}
+
+/**
+ * How long a request stays pending, configurable with the CHAT_REQUEST_TTL_HOURS env variable
+ */
+function getRequestTtlMs() {
+  return getHoursFromEnv("CHAT_REQUEST_TTL_HOURS", DEFAULT_REQUEST_TTL_HOURS);
+}
+
+/**
+ * How long a declined sender has to wait before asking again,
+ * configurable with the CHAT_REQUEST_COOLDOWN_HOURS env variable
+ */
+function getDeclineCooldownMs() {
+  return getHoursFromEnv("CHAT_REQUEST_COOLDOWN_HOURS", DEFAULT_DECLINE_COOLDOWN_HOURS);
+}
+
+/**
+ * Get when the user may send another request for a match after being declined
+ * Returns null when there is no cooldown
+ */
+export async function getCooldownEndsAt(
+  ctx: QueryCtx,
+  matchId: Id<"matches">,
+  userId: Id<"users">
+) {
+  const lastDeclined = await ctx.db
+    .query("chatRequests")
+    .withIndex("by_match_and_status", (q) =>
+      q.eq("matchId", matchId).eq("status", "declined")
+    )
+    .order("desc")
+    .first();
+
+  // Only the person who was declined has to wait
+  if (!lastDeclined || lastDeclined.fromUserId !== userId) return null;
+
+  const cooldownEndsAt = (lastDeclined.respondedAt ?? lastDeclined.createdAt) + getDeclineCooldownMs();
+  return cooldownEndsAt > Date.now() ? cooldownEndsAt : null;
+}
 
 /**
  * Send a chat request to a matched user
@@ -20,6 +81,8 @@ export const send = mutation({
 
     if (!user) throw new Error("User not found");
 
+    assertAccountActive(user);
+
     // Get the match
     const match = await ctx.db.get(args.matchId);
     if (!match) throw new Error("Match not found");
@@ -32,14 +95,15 @@ export const send = mutation({
     // Determine the other user
     const toUserId = match.user1Id === user._id ? match.user2Id : match.user1Id;
 
+    if (await isBlocked(ctx, user._id, toUserId)) {
+      throw new Error("You can't send a request to this user");
+    }
+
     // Check if there's already a pending request between these users
     const existingRequest = await ctx.db
       .query("chatRequests")
-      .filter((q) =>
-        q.and(
-          q.eq(q.field("matchId"), args.matchId),
-          q.eq(q.field("status"), "pending")
-        )
+      .withIndex("by_match_and_status", (q) =>
+        q.eq("matchId", args.matchId).eq("status", "pending")
       )
       .first();
 
@@ -47,6 +111,13 @@ export const send = mutation({
       throw new Error("A request is already pending for this match");
     }
 
+    // Give the other person some space after a decline
+    const cooldownEndsAt = await getCooldownEndsAt(ctx, args.matchId, user._id);
+    if (cooldownEndsAt !== null) {
+      const until = new Date(cooldownEndsAt).toUTCString();
+      throw new Error(`Your last request was declined. You can ask again after ${until}`);
+    }
+
     // Check if there's an active chat session
     const activeSession = await ctx.db
       .query("chatSessions")
@@ -72,15 +143,34 @@ export const send = mutation({
     }
 
     // Create the request
+    const now = Date.now();
+    const expiresAt = now + getRequestTtlMs();
     const requestId = await ctx.db.insert("chatRequests", {
       fromUserId: user._id,
       toUserId,
       matchId: args.matchId,
       status: "pending",
-      createdAt: Date.now(),
+      createdAt: now,
+      expiresAt,
     });
 
-    return { requestId };
+    await ctx.scheduler.runAt(expiresAt, internal.chatRequests.expire, {
+      requestId,
+    });
+
+    await sendPush(ctx, toUserId, {
+      title: "New chat request",
+      body: `${user.name} wants to chat with you again`,
+      url: "/notifications",
+      tag: `request-${requestId}`,
+    });
+
+    // Email the recipient if they don't pick it up in the app
+    await ctx.scheduler.runAfter(REQUEST_EMAIL_DELAY_MS, internal.emailActions.sendChatRequestEmail, {
+      requestId,
+    });
+
+    return { requestId, expiresAt };
   },
 });
 
@@ -109,9 +199,15 @@ export const listPending = query({
       .order("desc")
       .collect();
 
+    // Skip requests that have run out but haven't been expired yet
+    const now = Date.now();
+    const liveRequests = requests.filter(
+      (request) => request.expiresAt === undefined || request.expiresAt > now
+    );
+
     // Get sender details for each request
     const requestsWithSender = await Promise.all(
-      requests.map(async (request) => {
+      liveRequests.map(async (request) => {
         const sender = await ctx.db.get(request.fromUserId);
         const match = await ctx.db.get(request.matchId);
 
@@ -122,14 +218,15 @@ export const listPending = query({
                 _id: sender._id,
                 name: sender.name,
                 age: sender.age,
-                gender: sender.gender,
+                genderIdentity: sender.genderIdentity,
                 bio: sender.bio,
-                photos: sender.photos,
+                photos: await getPhotoUrls(ctx, sender),
               }
             : null,
           matchId: request.matchId,
           chatSessionId: match?.chatSessionId,
           createdAt: request.createdAt,
+          expiresAt: request.expiresAt,
         };
       })
     );
@@ -138,6 +235,111 @@ export const listPending = query({
   },
 });
 
+/**
+ * Get the current user's recently sent requests with their outcome
+ */
+export const listSent = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const requests = await ctx.db
+      .query("chatRequests")
+      .withIndex("by_from_user", (q) => q.eq("fromUserId", user._id))
+      .order("desc")
+      .take(20);
+
+    const requestsWithRecipient = await Promise.all(
+      requests.map(async (request) => {
+        const recipient = await ctx.db.get(request.toUserId);
+
+        return {
+          _id: request._id,
+          toUser: recipient
+            ? {
+                _id: recipient._id,
+                name: recipient.name,
+              }
+            : null,
+          matchId: request.matchId,
+          status: request.status,
+          createdAt: request.createdAt,
+          expiresAt: request.expiresAt,
+          respondedAt: request.respondedAt,
+        };
+      })
+    );
+
+    return requestsWithRecipient.filter((r) => r.toUser !== null);
+  },
+});
+
+/**
+ * Withdraw a pending request (sender only)
+ */
+export const cancel = mutation({
+  args: {
+    requestId: v.id("chatRequests"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const request = await ctx.db.get(args.requestId);
+    if (!request) throw new Error("Request not found");
+
+    // Only the sender can withdraw a request
+    if (request.fromUserId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    if (request.status !== "pending") {
+      throw new Error("Request is no longer pending");
+    }
+
+    await ctx.db.patch(args.requestId, {
+      status: "cancelled",
+      respondedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Expire a request that was left unanswered (scheduled when it's sent)
+ */
+export const expire = internalMutation({
+  args: {
+    requestId: v.id("chatRequests"),
+  },
+  handler: async (ctx, args) => {
+    const request = await ctx.db.get(args.requestId);
+
+    // Already answered, withdrawn or deleted
+    if (!request || request.status !== "pending") return;
+
+    await ctx.db.patch(args.requestId, {
+      status: "expired",
+    });
+  },
+});
+
 /**
  * Accept a chat request
  */
@@ -156,6 +358,8 @@ export const accept = mutation({
 
     if (!user) throw new Error("User not found");
 
+    assertAccountActive(user);
+
     // Get the request
     const request = await ctx.db.get(args.requestId);
     if (!request) throw new Error("Request not found");
@@ -170,6 +374,20 @@ export const accept = mutation({
       throw new Error("Request is no longer pending");
     }
 
+    if (request.expiresAt !== undefined && request.expiresAt <= Date.now()) {
+      throw new Error("Request has expired");
+    }
+
+    // The sender may have been suspended or blocked since sending
+    const sender = await ctx.db.get(request.fromUserId);
+    if (!sender || !isAccountActive(sender)) {
+      throw new Error("This user is no longer available");
+    }
+
+    if (await isBlocked(ctx, user._id, request.fromUserId)) {
+      throw new Error("You can't chat with this user");
+    }
+
     // Get the match
     const match = await ctx.db.get(request.matchId);
     if (!match) throw new Error("Match not found");
@@ -180,6 +398,7 @@ export const accept = mutation({
       user2Id: request.toUserId,
       phase: "extended", // Skip speed dating for reconnections
       status: "active",
+      matchId: request.matchId, // Continue the match's existing thread
       startedAt: Date.now(),
     });
 
@@ -188,12 +407,27 @@ export const accept = mutation({
       chatSessionId: sessionId,
     });
 
+    await insertSystemMessage(ctx, {
+      chatSessionId: sessionId,
+      matchId: request.matchId,
+      actorId: user._id,
+      payload: { type: "reconnected" },
+    });
+
     // Update the request status
     await ctx.db.patch(args.requestId, {
       status: "accepted",
       respondedAt: Date.now(),
     });
 
+    await notify(ctx, {
+      userId: request.fromUserId,
+      type: "request_accepted",
+      actorId: user._id,
+      matchId: request.matchId,
+      chatSessionId: sessionId,
+    });
+
     return { chatSessionId: sessionId };
   },
 });
@@ -225,12 +459,24 @@ export const decline = mutation({
       throw new Error("Unauthorized");
     }
 
+    // Verify request is still pending
+    if (request.status !== "pending") {
+      throw new Error("Request is no longer pending");
+    }
+
     // Update the request status
     await ctx.db.patch(args.requestId, {
       status: "declined",
       respondedAt: Date.now(),
     });
 
+    await notify(ctx, {
+      userId: request.fromUserId,
+      type: "request_declined",
+      actorId: user._id,
+      matchId: request.matchId,
+    });
+
     return { success: true };
   },
 });
@@ -256,20 +502,25 @@ export const getStatusForMatch = query({
     // Check for pending request
     const pendingRequest = await ctx.db
       .query("chatRequests")
-      .filter((q) =>
-        q.and(
-          q.eq(q.field("matchId"), args.matchId),
-          q.eq(q.field("status"), "pending")
-        )
+      .withIndex("by_match_and_status", (q) =>
+        q.eq("matchId", args.matchId).eq("status", "pending")
       )
       .first();
 
-    if (!pendingRequest) return { hasPending: false, isSender: false };
+    if (!pendingRequest) {
+      return {
+        hasPending: false,
+        isSender: false,
+        cooldownEndsAt: await getCooldownEndsAt(ctx, args.matchId, user._id),
+      };
+    }
 
     return {
       hasPending: true,
       isSender: pendingRequest.fromUserId === user._id,
       requestId: pendingRequest._id,
+      expiresAt: pendingRequest.expiresAt,
+      cooldownEndsAt: null,
     };
   },
 });
@@ -0,0 +1,113 @@
+// Interest tags, questionnaire and compatibility scoring
+// Plain data and functions only, so the profile page can import it too
+
+export const MAX_INTERESTS = 10;
+
+export const INTERESTS = [
+  { id: "music", label: "Music" },
+  { id: "movies", label: "Movies" },
+  { id: "books", label: "Books" },
+  { id: "gaming", label: "Gaming" },
+  { id: "cooking", label: "Cooking" },
+  { id: "travel", label: "Travel" },
+  { id: "hiking", label: "Hiking" },
+  { id: "fitness", label: "Fitness" },
+  { id: "yoga", label: "Yoga" },
+  { id: "art", label: "Art" },
+  { id: "photography", label: "Photography" },
+  { id: "dancing", label: "Dancing" },
+  { id: "pets", label: "Pets" },
+  { id: "coffee", label: "Coffee" },
+  { id: "wine", label: "Wine" },
+  { id: "tech", label: "Tech" },
+  { id: "science", label: "Science" },
+  { id: "sports", label: "Sports" },
+  { id: "fashion", label: "Fashion" },
+  { id: "volunteering", label: "Volunteering" },
+] as const;
+
+export const QUESTIONS = [
+  {
+    id: "weekend",
+    question: "My ideal weekend is...",
+    options: [
+      { id: "out", label: "Out with friends" },
+      { id: "home", label: "Cozy at home" },
+      { id: "outdoors", label: "In the outdoors" },
+    ],
+  },
+  {
+    id: "schedule",
+    question: "I'm a...",
+    options: [
+      { id: "morning", label: "Morning person" },
+      { id: "night", label: "Night owl" },
+    ],
+  },
+  {
+    id: "plans",
+    question: "When it comes to plans...",
+    options: [
+      { id: "planner", label: "I plan ahead" },
+      { id: "spontaneous", label: "I go with the flow" },
+    ],
+  },
+  {
+    id: "looking_for",
+    question: "I'm looking for...",
+    options: [
+      { id: "relationship", label: "A relationship" },
+      { id: "casual", label: "Something casual" },
+      { id: "friends", label: "New friends" },
+      { id: "unsure", label: "Not sure yet" },
+    ],
+  },
+  {
+    id: "kids",
+    question: "Kids someday?",
+    options: [
+      { id: "yes", label: "Yes" },
+      { id: "no", label: "No" },
+      { id: "maybe", label: "Maybe" },
+    ],
+  },
+] as const;
+
+// Points for each shared interest and each matching answer
+const SHARED_INTEREST_WEIGHT = 1;
+const MATCHING_ANSWER_WEIGHT = 2;
+
+interface CompatibilityProfile {
+  interests?: string[];
+  questionnaireAnswers?: Record<string, string>;
+}
+
+/**
+ * Get the interest tags both people picked
+ */
+export function getSharedInterests(a: CompatibilityProfile, b: CompatibilityProfile) {
+  const otherInterests = new Set(b.interests ?? []);
+  return (a.interests ?? []).filter((interest) => otherInterests.has(interest));
+}
+
+/**
+ * Score how well two people fit (higher is better, 0 means nothing in common)
+ */
+export function compatibilityScore(a: CompatibilityProfile, b: CompatibilityProfile) {
+  const sharedInterests = getSharedInterests(a, b).length;
+
+  const answersA = a.questionnaireAnswers ?? {};
+  const answersB = b.questionnaireAnswers ?? {};
+  const matchingAnswers = Object.keys(answersA).filter(
+    (questionId) => answersB[questionId] === answersA[questionId]
+  ).length;
+
+  return sharedInterests * SHARED_INTEREST_WEIGHT + matchingAnswers * MATCHING_ANSWER_WEIGHT;
+}
+
+/**
+ * Get the label of an interest tag
+ */
+export function getInterestLabel(interestId: string) {
+  return INTERESTS.find((interest) => interest.id === interestId)?.label ?? interestId;
+}
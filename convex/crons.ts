@@ -0,0 +1,27 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Pair waiting users into speed dates
+crons.interval(
+  "match queued users",
+  { seconds: 5 },
+  internal.queue.runMatcher
+);
+
+// Drop users who left the dashboard without leaving the queue
+crons.interval(
+  "sweep stale queue entries",
+  { minutes: 1 },
+  internal.queue.sweepStaleQueue
+);
+
+// Daily email digest
+crons.daily(
+  "send daily digests",
+  { hourUTC: 17, minuteUTC: 0 },
+  internal.emailActions.sendDailyDigests
+);
+
+export default crons;
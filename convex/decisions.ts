@@ -1,206 +1,411 @@
-import { v } from "convex/values";
-import { mutation } from "./_generated/server";
-import { Doc, Id } from "./_generated/dataModel";
-
-/**
- * Record user's decision to continue or end the chat
- */
-export const makeDecision = mutation({
-  args: {
-    chatSessionId: v.id("chatSessions"),
-    wantsToContinue: v.boolean(),
-  },
-  handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) throw new Error("Unauthenticated");
-
-    // Get current user
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
-      .unique();
-
-    if (!user) throw new Error("User not found");
-
-    // Get chat session
-    const chatSession = await ctx.db.get(args.chatSessionId);
-    if (!chatSession) throw new Error("Chat session not found");
-
-    // Verify user is part of this chat
-    if (chatSession.user1Id !== user._id && chatSession.user2Id !== user._id) {
-      throw new Error("Unauthorized");
-    }
-
-    // Determine which user this is
-    const isUser1 = chatSession.user1Id === user._id;
-
-    // Update the user's decision
-    const updates: any = {
-      status: "waiting_reveal" as const,
-    };
-
-    if (isUser1) {
-      updates.user1WantsContinue = args.wantsToContinue;
-    } else {
-      updates.user2WantsContinue = args.wantsToContinue;
-    }
-
-    await ctx.db.patch(args.chatSessionId, updates);
-
-    // Get updated session
-    const updatedSession = await ctx.db.get(args.chatSessionId);
-    if (!updatedSession) throw new Error("Session not found");
-
-    // Check if both users have decided
-    const user1Decision = isUser1
-      ? args.wantsToContinue
-      : updatedSession.user1WantsContinue;
-    const user2Decision = isUser1
-      ? updatedSession.user2WantsContinue
-      : args.wantsToContinue;
-
-    let finalStatus: "waiting_reveal" | "active" | "ended" = "waiting_reveal";
-    let phase: "speed_dating" | "extended" = "speed_dating";
-    let matchCreated = false;
-
-    // If both users have decided
-    if (user1Decision !== undefined && user2Decision !== undefined) {
-      if (user1Decision && user2Decision) {
-        // Both want to continue - create match and transition to extended phase
-        finalStatus = "active";
-        phase = "extended";
-
-        // Create match record
-        await ctx.db.insert("matches", {
-          user1Id: chatSession.user1Id,
-          user2Id: chatSession.user2Id,
-          chatSessionId: args.chatSessionId,
-          matchedAt: Date.now(),
-        });
-
-        matchCreated = true;
-
-        // Update session to extended phase
-        await ctx.db.patch(args.chatSessionId, {
-          status: "active",
-          phase: "extended",
-        });
-      } else {
-        // At least one doesn't want to continue - end chat
-        await ctx.db.patch(args.chatSessionId, {
-          status: "ended",
-          endedAt: Date.now(),
-        });
-
-        // Remove both users from queue to prevent immediate rematching
-        await ctx.db.patch(chatSession.user1Id, { isInQueue: false });
-        await ctx.db.patch(chatSession.user2Id, { isInQueue: false });
-
-        // Delete all messages for privacy
-        const messages = await ctx.db
-          .query("messages")
-          .withIndex("by_chat_session", (q) => q.eq("chatSessionId", args.chatSessionId))
-          .collect();
-
-        for (const message of messages) {
-          await ctx.db.delete(message._id);
-        }
-
-        finalStatus = "ended";
-      }
-    }
-
-    return {
-      success: true,
-      status: finalStatus,
-      phase: phase,
-      matchCreated,
-      bothDecided: user1Decision !== undefined && user2Decision !== undefined,
-    };
-  },
-});
-
-/**
- * Skip speed dating phase and move to profile reveal
- */
-export const skipToReveal = mutation({
-  args: {
-    chatSessionId: v.id("chatSessions"),
-  },
-  handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) throw new Error("Unauthenticated");
-
-    // Get current user
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
-      .unique();
-
-    if (!user) throw new Error("User not found");
-
-    // Get chat session
-    const chatSession = await ctx.db.get(args.chatSessionId);
-    if (!chatSession) throw new Error("Chat session not found");
-
-    // Verify user is part of this chat
-    if (chatSession.user1Id !== user._id && chatSession.user2Id !== user._id) {
-      throw new Error("Unauthorized");
-    }
-
-    // Only allow skip during speed_dating phase
-    if (chatSession.phase !== "speed_dating") {
-      throw new Error("Can only skip during speed dating phase");
-    }
-
-    // Determine which user this is
-    const isUser1 = chatSession.user1Id === user._id;
-
-    // Update the user's skip preference
-    const updates: any = {};
-
-    if (isUser1) {
-      updates.user1WantsSkip = true;
-    } else {
-      updates.user2WantsSkip = true;
-    }
-
-    await ctx.db.patch(args.chatSessionId, updates);
-
-    // Get updated session
-    const updatedSession = await ctx.db.get(args.chatSessionId);
-    if (!updatedSession) throw new Error("Session not found");
-
-    // Check if both users want to skip
-    const user1Skip = isUser1 ? true : updatedSession.user1WantsSkip;
-    const user2Skip = isUser1 ? updatedSession.user2WantsSkip : true;
-
-    let matchCreated = false;
-
-    // If both users want to skip
-    if (user1Skip && user2Skip) {
-      // Create match record
-      await ctx.db.insert("matches", {
-        user1Id: chatSession.user1Id,
-        user2Id: chatSession.user2Id,
-        chatSessionId: args.chatSessionId,
-        matchedAt: Date.now(),
-      });
-
-      matchCreated = true;
-
-      // Update session to extended phase
-      await ctx.db.patch(args.chatSessionId, {
-        status: "active",
-        phase: "extended",
-      });
-    }
-
-    return {
-      success: true,
-      bothSkipped: user1Skip && user2Skip,
-      matchCreated,
-      skipCount: (user1Skip ? 1 : 0) + (user2Skip ? 1 : 0),
-    };
-  },
-});
+import { v } from "convex/values";
+import { mutation, internalMutation, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { notify } from "./notifications";
+import { insertSystemMessage, endChatSession } from "./messages";
+import { getSettings } from "./settings";
+
+// How long users have to decide after the speed date ends
+const DECISION_WINDOW_MS = 2 * 60 * 1000; // 2 minutes
+
+// Time added when both users vote to extend a speed date
+const EXTENSION_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Put a session into the decision step and schedule its deadline
+ * Anyone who hasn't decided by the deadline counts as "no"
+ */
+async function startDecisionWindow(
+  ctx: MutationCtx,
+  chatSessionId: Id<"chatSessions">
+) {
+  const decisionDeadline = Date.now() + DECISION_WINDOW_MS;
+
+  await ctx.db.patch(chatSessionId, {
+    status: "waiting_reveal",
+    decisionDeadline,
+  });
+
+  await ctx.scheduler.runAt(
+    decisionDeadline,
+    internal.decisions.resolveDecisionDeadline,
+    { chatSessionId }
+  );
+}
+
+/**
+ * Throw unless the session is a speed date that hasn't been decided yet
+ * Matched and ended sessions must never be matched or ended again
+ */
+function assertSpeedDateOpen(chatSession: Doc<"chatSessions">) {
+  if (chatSession.status === "ended") {
+    throw new Error("Chat session has ended");
+  }
+
+  if (chatSession.phase !== "speed_dating") {
+    throw new Error("This speed date has already become a match");
+  }
+}
+
+/**
+ * Create a match from a speed date and move the session to the extended phase
+ * Links the session and its messages to the match so the thread survives reconnects
+ * actorId is the user whose vote completed the match
+ */
+async function createMatch(
+  ctx: MutationCtx,
+  chatSession: Doc<"chatSessions">,
+  actorId: Id<"users">,
+  reason: "matched" | "skipped_to_reveal"
+) {
+  const matchId = await ctx.db.insert("matches", {
+    user1Id: chatSession.user1Id,
+    user2Id: chatSession.user2Id,
+    chatSessionId: chatSession._id,
+    matchedAt: Date.now(),
+  });
+
+  // Update session to extended phase
+  await ctx.db.patch(chatSession._id, {
+    status: "active",
+    phase: "extended",
+    matchId,
+  });
+
+  // Keep the speed date messages as the start of the match thread
+  const messages = await ctx.db
+    .query("messages")
+    .withIndex("by_chat_session", (q) => q.eq("chatSessionId", chatSession._id))
+    .collect();
+
+  for (const message of messages) {
+    await ctx.db.patch(message._id, { matchId });
+  }
+
+  await insertSystemMessage(ctx, {
+    chatSessionId: chatSession._id,
+    matchId,
+    actorId,
+    payload: { type: reason },
+  });
+
+  // Let both people know, in case they already left the chat
+  await notify(ctx, {
+    userId: chatSession.user1Id,
+    type: "new_match",
+    actorId: chatSession.user2Id,
+    matchId,
+    chatSessionId: chatSession._id,
+  });
+  await notify(ctx, {
+    userId: chatSession.user2Id,
+    type: "new_match",
+    actorId: chatSession.user1Id,
+    matchId,
+    chatSessionId: chatSession._id,
+  });
+
+  return matchId;
+}
+
+/**
+ * Record user's decision to continue or end the chat
+ */
+export const makeDecision = mutation({
+  args: {
+    chatSessionId: v.id("chatSessions"),
+    wantsToContinue: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    // Get current user
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    // Get chat session
+    const chatSession = await ctx.db.get(args.chatSessionId);
+    if (!chatSession) throw new Error("Chat session not found");
+
+    // Verify user is part of this chat
+    if (chatSession.user1Id !== user._id && chatSession.user2Id !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    assertSpeedDateOpen(chatSession);
+
+    // Open the decision window if the server timer hasn't already
+    if (chatSession.decisionDeadline === undefined) {
+      await startDecisionWindow(ctx, args.chatSessionId);
+    }
+
+    // Determine which user this is
+    const isUser1 = chatSession.user1Id === user._id;
+
+    // Update the user's decision
+    const updates: any = {};
+
+    if (isUser1) {
+      updates.user1WantsContinue = args.wantsToContinue;
+    } else {
+      updates.user2WantsContinue = args.wantsToContinue;
+    }
+
+    await ctx.db.patch(args.chatSessionId, updates);
+
+    // Get updated session
+    const updatedSession = await ctx.db.get(args.chatSessionId);
+    if (!updatedSession) throw new Error("Session not found");
+
+    // Check if both users have decided
+    const user1Decision = isUser1
+      ? args.wantsToContinue
+      : updatedSession.user1WantsContinue;
+    const user2Decision = isUser1
+      ? updatedSession.user2WantsContinue
+      : args.wantsToContinue;
+
+    let finalStatus: "waiting_reveal" | "active" | "ended" = "waiting_reveal";
+    let phase: "speed_dating" | "extended" = "speed_dating";
+    let matchCreated = false;
+
+    // If both users have decided
+    if (user1Decision !== undefined && user2Decision !== undefined) {
+      if (user1Decision && user2Decision) {
+        // Both want to continue - create match and transition to extended phase
+        finalStatus = "active";
+        phase = "extended";
+
+        await createMatch(ctx, updatedSession, user._id, "matched");
+
+        matchCreated = true;
+      } else {
+        // At least one doesn't want to continue - end chat
+        await endChatSession(ctx, updatedSession);
+
+        finalStatus = "ended";
+      }
+    }
+
+    return {
+      success: true,
+      status: finalStatus,
+      phase: phase,
+      matchCreated,
+      bothDecided: user1Decision !== undefined && user2Decision !== undefined,
+    };
+  },
+});
+
+/**
+ * Move a speed date to the decision step once its timer runs out
+ * Scheduled by queue.join so it runs even when neither user has the chat open
+ */
+export const expireSpeedDating = internalMutation({
+  args: {
+    chatSessionId: v.id("chatSessions"),
+  },
+  handler: async (ctx, args) => {
+    const chatSession = await ctx.db.get(args.chatSessionId);
+    if (!chatSession) return;
+
+    // Already skipped, decided or left
+    if (chatSession.status !== "active" || chatSession.phase !== "speed_dating") {
+      return;
+    }
+
+    // Extended since this run was scheduled (extendTime schedules a new one)
+    if (chatSession.speedDatingEndsAt !== undefined && chatSession.speedDatingEndsAt > Date.now()) {
+      return;
+    }
+
+    await startDecisionWindow(ctx, args.chatSessionId);
+  },
+});
+
+/**
+ * Close the decision step once its deadline passes
+ * Anyone who hasn't decided counts as "no", so the session always ends
+ */
+export const resolveDecisionDeadline = internalMutation({
+  args: {
+    chatSessionId: v.id("chatSessions"),
+  },
+  handler: async (ctx, args) => {
+    const chatSession = await ctx.db.get(args.chatSessionId);
+    if (!chatSession) return;
+
+    // Both users already decided
+    if (chatSession.status !== "waiting_reveal") return;
+
+    // A missing vote is a "no", so this can never become a match
+    await endChatSession(ctx, chatSession);
+  },
+});
+
+/**
+ * Skip speed dating phase and move to profile reveal
+ */
+export const skipToReveal = mutation({
+  args: {
+    chatSessionId: v.id("chatSessions"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    // Get current user
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    // Get chat session
+    const chatSession = await ctx.db.get(args.chatSessionId);
+    if (!chatSession) throw new Error("Chat session not found");
+
+    // Verify user is part of this chat
+    if (chatSession.user1Id !== user._id && chatSession.user2Id !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    assertSpeedDateOpen(chatSession);
+
+    // Determine which user this is
+    const isUser1 = chatSession.user1Id === user._id;
+
+    // Update the user's skip preference
+    const updates: any = {};
+
+    if (isUser1) {
+      updates.user1WantsSkip = true;
+    } else {
+      updates.user2WantsSkip = true;
+    }
+
+    await ctx.db.patch(args.chatSessionId, updates);
+
+    // Get updated session
+    const updatedSession = await ctx.db.get(args.chatSessionId);
+    if (!updatedSession) throw new Error("Session not found");
+
+    // Check if both users want to skip
+    const user1Skip = isUser1 ? true : updatedSession.user1WantsSkip;
+    const user2Skip = isUser1 ? updatedSession.user2WantsSkip : true;
+
+    let matchCreated = false;
+
+    // If both users want to skip
+    if (user1Skip && user2Skip) {
+      await createMatch(ctx, updatedSession, user._id, "skipped_to_reveal");
+
+      matchCreated = true;
+    }
+
+    return {
+      success: true,
+      bothSkipped: user1Skip && user2Skip,
+      matchCreated,
+      skipCount: (user1Skip ? 1 : 0) + (user2Skip ? 1 : 0),
+    };
+  },
+});
+
+/**
+ * Vote to add five minutes to the speed date
+ * Time is only added once both users voted, up to the maxExtensions setting
+ */
+export const extendTime = mutation({
+  args: {
+    chatSessionId: v.id("chatSessions"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    // Get current user
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    // Get chat session
+    const chatSession = await ctx.db.get(args.chatSessionId);
+    if (!chatSession) throw new Error("Chat session not found");
+
+    // Verify user is part of this chat
+    if (chatSession.user1Id !== user._id && chatSession.user2Id !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    // Only allow extending a running speed date
+    if (
+      chatSession.phase !== "speed_dating" ||
+      chatSession.status !== "active" ||
+      !chatSession.speedDatingEndsAt ||
+      chatSession.speedDatingEndsAt <= Date.now()
+    ) {
+      throw new Error("Can only extend a running speed date");
+    }
+
+    const { maxExtensions } = await getSettings(ctx);
+    const extensionCount = chatSession.extensionCount ?? 0;
+    if (extensionCount >= maxExtensions) {
+      throw new Error("No extensions left");
+    }
+
+    // Determine which user this is
+    const isUser1 = chatSession.user1Id === user._id;
+
+    const user1Extend = isUser1 ? true : chatSession.user1WantsExtend;
+    const user2Extend = isUser1 ? chatSession.user2WantsExtend : true;
+
+    // Wait for the other vote
+    if (!user1Extend || !user2Extend) {
+      await ctx.db.patch(args.chatSessionId, isUser1
+        ? { user1WantsExtend: true }
+        : { user2WantsExtend: true });
+
+      return {
+        success: true,
+        extended: false,
+        extendCount: (user1Extend ? 1 : 0) + (user2Extend ? 1 : 0),
+        extensionsLeft: maxExtensions - extensionCount,
+      };
+    }
+
+    // Both voted - push the end out and start a fresh vote
+    const speedDatingEndsAt = chatSession.speedDatingEndsAt + EXTENSION_MS;
+
+    await ctx.db.patch(args.chatSessionId, {
+      speedDatingEndsAt,
+      extensionCount: extensionCount + 1,
+      user1WantsExtend: false,
+      user2WantsExtend: false,
+    });
+
+    await ctx.scheduler.runAt(
+      speedDatingEndsAt,
+      internal.decisions.expireSpeedDating,
+      { chatSessionId: args.chatSessionId }
+    );
+
+    // Votes were reset for the next extension
+    return {
+      success: true,
+      extended: true,
+      extendCount: 0,
+      extensionsLeft: maxExtensions - (extensionCount + 1),
+    };
+  },
+});
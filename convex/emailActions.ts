@@ -0,0 +1,96 @@
+"use node";
+
+import { v } from "convex/values";
+import { FunctionReturnType } from "convex/server";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { getMailTransport } from "./mailTransport";
+
+/**
+ * Link back to the app, configurable with the SITE_URL env variable
+ */
+function siteUrl(path: string) {
+  return `${process.env.SITE_URL ?? "http://localhost:3000"}${path}`;
+}
+
+const FOOTER = `\n\nYou can turn these emails off in your profile: ${siteUrl("/profile")}`;
+
+/**
+ * Email someone about a chat request they haven't answered yet
+ * Scheduled by chatRequests.send
+ */
+export const sendChatRequestEmail = internalAction({
+  args: {
+    requestId: v.id("chatRequests"),
+  },
+  handler: async (ctx, args) => {
+    const email = await ctx.runQuery(internal.emails.getChatRequestEmail, {
+      requestId: args.requestId,
+    });
+    if (!email) return;
+
+    const expiry = email.expiresAt
+      ? ` The request expires ${new Date(email.expiresAt).toUTCString()}.`
+      : "";
+
+    await getMailTransport(ctx).send({
+      to: email.to,
+      subject: `${email.senderName} wants to chat with you again`,
+      text:
+        `Hi ${email.recipientName},\n\n` +
+        `${email.senderName} sent you a chat request.${expiry}\n\n` +
+        `Answer it here: ${siteUrl("/notifications")}` +
+        FOOTER,
+    });
+  },
+});
+
+/**
+ * Send everyone a summary of what they missed today
+ * Runs daily from crons.ts
+ */
+export const sendDailyDigests = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const transport = getMailTransport(ctx);
+    let cursor: string | null = null;
+    let sentCount = 0;
+
+    while (true) {
+      const batch: FunctionReturnType<typeof internal.emails.getDigestBatch> = await ctx.runQuery(internal.emails.getDigestBatch, {
+        paginationOpts: { numItems: 100, cursor },
+      });
+
+      for (const digest of batch.digests) {
+        const lines = [
+          digest.pendingRequests > 0 && `• ${digest.pendingRequests} chat request(s) waiting for you`,
+          digest.newMatches > 0 && `• ${digest.newMatches} new match(es)`,
+          digest.newMessages > 0 && `• New messages from ${digest.newMessages} match(es)`,
+          digest.acceptedRequests > 0 && `• ${digest.acceptedRequests} chat request(s) accepted`,
+        ].filter(Boolean);
+
+        try {
+          await transport.send({
+            to: digest.to,
+            subject: "Here's what you missed today",
+            text:
+              `Hi ${digest.name},\n\n` +
+              `${lines.join("\n")}\n\n` +
+              `Catch up here: ${siteUrl("/notifications")}` +
+              FOOTER,
+          });
+          await ctx.runMutation(internal.emails.markDigestSent, { userId: digest.userId });
+          sentCount++;
+        } catch (error) {
+          // One bad address shouldn't stop everyone else's digest
+          console.error(`[sendDailyDigests] Failed to email ${digest.userId}:`, error);
+        }
+      }
+
+      if (batch.isDone) break;
+      cursor = batch.continueCursor;
+    }
+
+    console.log(`[sendDailyDigests] Sent ${sentCount} digests`);
+  },
+});
@@ -0,0 +1,135 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { paginationOptsValidator } from "convex/server";
+import { Doc } from "./_generated/dataModel";
+
+// Digests cover at most the last day
+const DIGEST_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a user can receive a category of email
+ */
+function canEmail(user: Doc<"users">, category: "chatRequests" | "dailyDigest") {
+  // Users auto-created without an email from Clerk are stored with ""
+  if (!user.email) return false;
+  if (user.bannedAt !== undefined) return false;
+  return user.emailPreferences?.[category] ?? true;
+}
+
+/**
+ * Get what the chat request email needs, or null if it shouldn't be sent
+ */
+export const getChatRequestEmail = internalQuery({
+  args: {
+    requestId: v.id("chatRequests"),
+  },
+  handler: async (ctx, args) => {
+    const request = await ctx.db.get(args.requestId);
+
+    // Already answered in the app
+    if (!request || request.status !== "pending") return null;
+
+    const recipient = await ctx.db.get(request.toUserId);
+    const sender = await ctx.db.get(request.fromUserId);
+    if (!recipient || !sender || !canEmail(recipient, "chatRequests")) return null;
+
+    return {
+      to: recipient.email,
+      recipientName: recipient.name,
+      senderName: sender.name,
+      expiresAt: request.expiresAt,
+    };
+  },
+});
+
+/**
+ * Build the daily digests for a page of users
+ * Users with nothing new are left out
+ */
+export const getDigestBatch = internalQuery({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const users = await ctx.db.query("users").paginate(args.paginationOpts);
+    const now = Date.now();
+
+    const digests = [];
+    for (const user of users.page) {
+      if (!canEmail(user, "dailyDigest")) continue;
+
+      const since = Math.max(user.lastDigestSentAt ?? 0, now - DIGEST_PERIOD_MS);
+
+      const pendingRequests = await ctx.db
+        .query("chatRequests")
+        .withIndex("by_to_user_and_status", (q) =>
+          q.eq("toUserId", user._id).eq("status", "pending")
+        )
+        .collect();
+
+      const unreadNotifications = await ctx.db
+        .query("notifications")
+        .withIndex("by_user_and_read", (q) => q.eq("userId", user._id).eq("read", false))
+        .filter((q) => q.gt(q.field("createdAt"), since))
+        .collect();
+
+      const countOf = (type: Doc<"notifications">["type"]) =>
+        unreadNotifications.filter((notification) => notification.type === type).length;
+
+      const digest = {
+        userId: user._id,
+        to: user.email,
+        name: user.name,
+        pendingRequests: pendingRequests.length,
+        newMatches: countOf("new_match"),
+        newMessages: countOf("new_message"),
+        acceptedRequests: countOf("request_accepted"),
+      };
+
+      if (
+        digest.pendingRequests +
+          digest.newMatches +
+          digest.newMessages +
+          digest.acceptedRequests >
+        0
+      ) {
+        digests.push(digest);
+      }
+    }
+
+    return {
+      digests,
+      continueCursor: users.continueCursor,
+      isDone: users.isDone,
+    };
+  },
+});
+
+/**
+ * Remember when a user last got a digest so the next one only has news
+ */
+export const markDigestSent = internalMutation({
+  args: {
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.userId, { lastDigestSentAt: Date.now() });
+  },
+});
+
+/**
+ * Store an email in the mailbox table (used by the mailbox transport)
+ */
+export const captureEmail = internalMutation({
+  args: {
+    to: v.string(),
+    subject: v.string(),
+    text: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("mailbox", {
+      ...args,
+      createdAt: Date.now(),
+    });
+  },
+});
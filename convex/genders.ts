@@ -0,0 +1,58 @@
+// Gender identities shared by the schema, matching and the profile page
+import { v, Infer } from "convex/values";
+
+export const genderIdentity = v.union(
+  v.literal("woman"),
+  v.literal("man"),
+  v.literal("nonbinary"),
+  v.literal("trans_woman"),
+  v.literal("trans_man"),
+  v.literal("genderqueer"),
+  v.literal("genderfluid"),
+  v.literal("agender"),
+  v.literal("two_spirit"),
+  v.literal("other")
+);
+
+export type GenderIdentity = Infer<typeof genderIdentity>;
+
+export const GENDER_IDENTITIES: { id: GenderIdentity; label: string }[] = [
+  { id: "woman", label: "Woman" },
+  { id: "man", label: "Man" },
+  { id: "nonbinary", label: "Non-binary" },
+  { id: "trans_woman", label: "Trans woman" },
+  { id: "trans_man", label: "Trans man" },
+  { id: "genderqueer", label: "Genderqueer" },
+  { id: "genderfluid", label: "Genderfluid" },
+  { id: "agender", label: "Agender" },
+  { id: "two_spirit", label: "Two-spirit" },
+  { id: "other", label: "Another identity" },
+];
+
+/**
+ * Get the display label of a gender identity
+ */
+export function getGenderLabel(identity: GenderIdentity) {
+  return GENDER_IDENTITIES.find((option) => option.id === identity)?.label ?? identity;
+}
+
+/**
+ * Map the old male/female/other gender to an identity
+ */
+export function fromLegacyGender(gender: "male" | "female" | "other"): GenderIdentity {
+  if (gender === "male") return "man";
+  if (gender === "female") return "woman";
+  return "other";
+}
+
+/**
+ * Map the old male/female/both preference to an interested-in set
+ * "both" was the only choice that matched "other", so it becomes everyone
+ */
+export function fromLegacyGenderPreference(
+  preference: "male" | "female" | "both"
+): GenderIdentity[] {
+  if (preference === "male") return ["man"];
+  if (preference === "female") return ["woman"];
+  return GENDER_IDENTITIES.map((option) => option.id);
+}
@@ -0,0 +1,124 @@
+import { v } from "convex/values";
+import { mutation, internalMutation, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+
+// Starter library, loaded with icebreakers.seed
+const DEFAULT_PROMPTS = [
+  "What's the best thing you ate this week?",
+  "If you could live anywhere for a year, where would it be?",
+  "What's a hobby you'd pick up if you had the time?",
+  "What's the last song you had on repeat?",
+  "Beach holiday or city break?",
+  "What's a small thing that made your day recently?",
+  "What's the most spontaneous thing you've ever done?",
+  "Which fictional world would you want to live in?",
+  "What's your go-to karaoke song?",
+  "What's something you're looking forward to this month?",
+  "Early bird or night owl, and how do you spend the extra hours?",
+  "What's the best piece of advice you've been given?",
+  "If you could master one skill overnight, what would it be?",
+  "What's a movie you could watch again and again?",
+  "What does your perfect Sunday look like?",
+];
+
+/**
+ * Get the IDs of all active prompts
+ * Load once and pass to pickIcebreaker when drawing for many sessions
+ */
+export async function getActiveIcebreakerIds(ctx: QueryCtx) {
+  const prompts = await ctx.db
+    .query("icebreakers")
+    .withIndex("by_active", (q) => q.eq("active", true))
+    .collect();
+
+  return prompts.map((prompt) => prompt._id);
+}
+
+/**
+ * Pick a random prompt, avoiding the current one when possible
+ * Returns undefined while the library is empty
+ */
+export function pickIcebreaker(
+  icebreakerIds: Id<"icebreakers">[],
+  excludeId?: Id<"icebreakers">
+) {
+  const choices = icebreakerIds.length > 1
+    ? icebreakerIds.filter((id) => id !== excludeId)
+    : icebreakerIds;
+  if (choices.length === 0) return undefined;
+
+  return choices[Math.floor(Math.random() * choices.length)];
+}
+
+/**
+ * Swap the session's icebreaker for another one
+ * Only allowed before the first message, after that the prompt is frozen
+ */
+export const shuffle = mutation({
+  args: {
+    chatSessionId: v.id("chatSessions"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const chatSession = await ctx.db.get(args.chatSessionId);
+    if (!chatSession) throw new Error("Chat session not found");
+
+    // Verify user is part of this chat
+    if (chatSession.user1Id !== user._id && chatSession.user2Id !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    if (chatSession.status !== "active" || !chatSession.icebreakerId) {
+      throw new Error("No icebreaker to shuffle");
+    }
+
+    const firstMessage = await ctx.db
+      .query("messages")
+      .withIndex("by_chat_session", (q) => q.eq("chatSessionId", args.chatSessionId))
+      .filter((q) => q.neq(q.field("kind"), "system"))
+      .first();
+    if (firstMessage) {
+      throw new Error("The conversation has already started");
+    }
+
+    const icebreakerId = pickIcebreaker(
+      await getActiveIcebreakerIds(ctx),
+      chatSession.icebreakerId
+    );
+    await ctx.db.patch(args.chatSessionId, { icebreakerId });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Load the starter prompts into an empty library
+ * Run from the Convex dashboard after deploying icebreakers
+ */
+export const seed = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const existing = await ctx.db.query("icebreakers").first();
+    if (existing) {
+      console.log("[icebreakers.seed] Library already has prompts, skipping");
+      return { inserted: 0 };
+    }
+
+    const now = Date.now();
+    for (const prompt of DEFAULT_PROMPTS) {
+      await ctx.db.insert("icebreakers", { prompt, active: true, createdAt: now });
+    }
+
+    console.log(`[icebreakers.seed] Inserted ${DEFAULT_PROMPTS.length} prompts`);
+    return { inserted: DEFAULT_PROMPTS.length };
+  },
+});
@@ -0,0 +1,66 @@
+"use node";
+
+import nodemailer from "nodemailer";
+import { ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Send through an SMTP server configured with the SMTP_* env variables
+ */
+function createSmtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.MAIL_FROM;
+  if (!host || !from) {
+    throw new Error("SMTP_HOST and MAIL_FROM must be set to send email over SMTP");
+  }
+
+  const port = Number(process.env.SMTP_PORT ?? 587);
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+}
+
+/**
+ * Capture emails in the mailbox table instead of sending them
+ */
+function createMailboxTransport(ctx: ActionCtx): MailTransport {
+  return {
+    async send(message) {
+      await ctx.runMutation(internal.emails.captureEmail, message);
+    },
+  };
+}
+
+/**
+ * Get the transport selected by the MAIL_TRANSPORT env variable ("smtp" or "mailbox")
+ * Defaults to the mailbox so development deployments never send real email
+ */
+export function getMailTransport(ctx: ActionCtx): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT ?? "mailbox";
+
+  if (transport === "smtp") return createSmtpTransport();
+  if (transport === "mailbox") return createMailboxTransport(ctx);
+
+  throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+}
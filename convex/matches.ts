@@ -1,5 +1,9 @@
 import { v } from "convex/values";
-import { query } from "./_generated/server";
+import { mutation, query, internalMutation } from "./_generated/server";
+import { blockUser, getBlockedUserIds } from "./blocks";
+import { getPhotoUrls } from "./profile";
+import { getCooldownEndsAt } from "./chatRequests";
+import { deleteEditHistory } from "./messages";
 
 /**
  * Get current user's match history
@@ -29,9 +33,16 @@ export const list = query({
       .order("desc")
       .collect();
 
+    // Hide matches with anyone the user has blocked or been blocked by
+    const blockedUserIds = await getBlockedUserIds(ctx, user._id);
+    const visibleMatches = matches.filter(
+      (match) =>
+        !blockedUserIds.has(match.user1Id === user._id ? match.user2Id : match.user1Id)
+    );
+
     // Get match details with other user's profile
     const matchesWithProfiles = await Promise.all(
-      matches.map(async (match) => {
+      visibleMatches.map(async (match) => {
         const otherUserId =
           match.user1Id === user._id ? match.user2Id : match.user1Id;
         const otherUser = await ctx.db.get(otherUserId);
@@ -40,32 +51,47 @@ export const list = query({
         const chatSession = await ctx.db.get(match.chatSessionId);
         const hasActiveChat = chatSession?.status === "active";
 
+        // Count messages from the other user that haven't been read yet, across the whole thread
+        const unreadMessages = await ctx.db
+          .query("messages")
+          .withIndex("by_match_sender_and_read", (q) =>
+            q.eq("matchId", match._id).eq("senderId", otherUserId).eq("readAt", undefined)
+          )
+          .filter((q) => q.neq(q.field("kind"), "system"))
+          .collect();
+
         // Check for pending request
         const pendingRequest = await ctx.db
           .query("chatRequests")
-          .filter((q) =>
-            q.and(
-              q.eq(q.field("matchId"), match._id),
-              q.eq(q.field("status"), "pending")
-            )
+          .withIndex("by_match_and_status", (q) =>
+            q.eq("matchId", match._id).eq("status", "pending")
           )
           .first();
 
+        // The user may have to wait after their last request was declined
+        const requestCooldownEndsAt = pendingRequest
+          ? null
+          : await getCooldownEndsAt(ctx, match._id, user._id);
+
         return {
           _id: match._id,
           matchedAt: match.matchedAt,
           chatSessionId: match.chatSessionId,
           hasActiveChat,
+          unreadCount: unreadMessages.length,
           hasPendingRequest: !!pendingRequest,
           isRequestSender: pendingRequest?.fromUserId === user._id,
+          pendingRequestId: pendingRequest?._id,
+          requestExpiresAt: pendingRequest?.expiresAt,
+          requestCooldownEndsAt,
           otherUser: otherUser
             ? {
                 _id: otherUser._id,
                 name: otherUser.name,
                 age: otherUser.age,
-                gender: otherUser.gender,
+                genderIdentity: otherUser.genderIdentity,
                 bio: otherUser.bio,
-                photos: otherUser.photos,
+                photos: await getPhotoUrls(ctx, otherUser),
               }
             : null,
         };
@@ -75,3 +101,243 @@ export const list = query({
     return matchesWithProfiles.filter((m) => m.otherUser !== null);
   },
 });
+
+/**
+ * Unmatch from a user
+ * Deletes the match and everything shared between the pair, optionally blocking them
+ */
+export const unmatch = mutation({
+  args: {
+    matchId: v.id("matches"),
+    block: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const match = await ctx.db.get(args.matchId);
+    if (!match) throw new Error("Match not found");
+
+    // Verify user is part of this match
+    if (match.user1Id !== user._id && match.user2Id !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    const otherUserId = match.user1Id === user._id ? match.user2Id : match.user1Id;
+    const now = Date.now();
+
+    // End active sessions and delete the shared messages of every session of the match
+    const sessions = await ctx.db
+      .query("chatSessions")
+      .withIndex("by_match", (q) => q.eq("matchId", args.matchId))
+      .collect();
+
+    // Sessions from before match threads may only be linked through the match itself
+    if (!sessions.some((session) => session._id === match.chatSessionId)) {
+      const currentSession = await ctx.db.get(match.chatSessionId);
+      if (currentSession) sessions.push(currentSession);
+    }
+
+    for (const session of sessions) {
+      if (session.status !== "ended") {
+        await ctx.db.patch(session._id, {
+          status: "ended",
+          endedAt: now,
+        });
+      }
+      // Unlink the session so nothing points at the deleted match
+      await ctx.db.patch(session._id, { matchId: undefined });
+
+      const messages = await ctx.db
+        .query("messages")
+        .withIndex("by_chat_session", (q) => q.eq("chatSessionId", session._id))
+        .collect();
+
+      for (const message of messages) {
+        await ctx.db.delete(message._id);
+      }
+      await deleteEditHistory(ctx, session._id);
+    }
+
+    // Cancel pending chat requests for this match
+    const pendingRequests = await ctx.db
+      .query("chatRequests")
+      .withIndex("by_match_and_status", (q) =>
+        q.eq("matchId", args.matchId).eq("status", "pending")
+      )
+      .collect();
+
+    for (const request of pendingRequests) {
+      await ctx.db.patch(request._id, {
+        status: "cancelled",
+        respondedAt: now,
+      });
+    }
+
+    // Notifications about the match would point at nothing and still hold message previews
+    for (const userId of [match.user1Id, match.user2Id]) {
+      const notifications = await ctx.db
+        .query("notifications")
+        .withIndex("by_user_and_match", (q) =>
+          q.eq("userId", userId).eq("matchId", args.matchId)
+        )
+        .collect();
+      for (const notification of notifications) {
+        await ctx.db.delete(notification._id);
+      }
+    }
+
+    await ctx.db.delete(args.matchId);
+
+    // Keep the pair out of speed dating for good, like the match did
+    await ctx.db.insert("unmatches", {
+      user1Id: match.user1Id,
+      user2Id: match.user2Id,
+      unmatchedAt: now,
+    });
+
+    if (args.block) {
+      await blockUser(ctx, user._id, otherUserId);
+    }
+
+    // Let the other person know through their match list
+    await ctx.db.insert("unmatchNotices", {
+      userId: otherUserId,
+      unmatchedById: user._id,
+      createdAt: now,
+      dismissed: false,
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Get notices about matches the other person removed
+ */
+export const listUnmatchNotices = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const notices = await ctx.db
+      .query("unmatchNotices")
+      .withIndex("by_user_and_dismissed", (q) =>
+        q.eq("userId", user._id).eq("dismissed", false)
+      )
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      notices.map(async (notice) => {
+        const unmatchedBy = await ctx.db.get(notice.unmatchedById);
+        return {
+          _id: notice._id,
+          name: unmatchedBy?.name ?? "Someone",
+          createdAt: notice.createdAt,
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Dismiss an unmatch notice
+ */
+export const dismissUnmatchNotice = mutation({
+  args: {
+    noticeId: v.id("unmatchNotices"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const notice = await ctx.db.get(args.noticeId);
+    if (!notice) throw new Error("Notice not found");
+
+    if (notice.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    await ctx.db.patch(args.noticeId, { dismissed: true });
+
+    return { success: true };
+  },
+});
+
+/**
+ * One-off migration linking existing sessions and messages to their match
+ * Run from the Convex dashboard after deploying match threads
+ */
+export const backfillThreads = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const matches = await ctx.db.query("matches").collect();
+    let linkedSessions = 0;
+
+    for (const match of matches) {
+      // Sessions store the pair in either order
+      const sessions = [
+        ...(await ctx.db
+          .query("chatSessions")
+          .withIndex("by_users", (q) =>
+            q.eq("user1Id", match.user1Id).eq("user2Id", match.user2Id)
+          )
+          .collect()),
+        ...(await ctx.db
+          .query("chatSessions")
+          .withIndex("by_users", (q) =>
+            q.eq("user1Id", match.user2Id).eq("user2Id", match.user1Id)
+          )
+          .collect()),
+      ];
+
+      // Only sessions that were part of the match (the matched speed date and reconnects)
+      const matchSessions = sessions.filter(
+        (session) =>
+          session.matchId === undefined &&
+          (session._id === match.chatSessionId || session.phase === "extended")
+      );
+
+      for (const session of matchSessions) {
+        await ctx.db.patch(session._id, { matchId: match._id });
+
+        const messages = await ctx.db
+          .query("messages")
+          .withIndex("by_chat_session", (q) => q.eq("chatSessionId", session._id))
+          .collect();
+
+        for (const message of messages) {
+          await ctx.db.patch(message._id, { matchId: match._id });
+        }
+
+        linkedSessions++;
+      }
+    }
+
+    console.log(`[backfillThreads] Linked ${linkedSessions} sessions to their match`);
+    return { linkedSessions };
+  },
+});
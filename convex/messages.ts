@@ -1,14 +1,99 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { paginationOptsValidator } from "convex/server";
 import { Doc, Id } from "./_generated/dataModel";
+import { isBlocked } from "./blocks";
+import { assertAccountActive } from "./moderation";
+import { getPhotoUrls } from "./profile";
+import { notify, updateMessagePreview } from "./notifications";
+import { sendPush } from "./push";
+import { isViewingChat } from "./presence";
+import { getInterestLabel, getSharedInterests } from "./compatibility";
+import { getSettings } from "./settings";
+
+type SystemPayload = NonNullable<Doc<"messages">["payload"]>;
+
+// Plain-text version of each system message (reports, previews, older clients)
+const SYSTEM_MESSAGE_TEXT: Record<SystemPayload["type"], string> = {
+  matched: "It's a match! You both chose to keep talking.",
+  skipped_to_reveal: "You both skipped to profiles. It's a match!",
+  reconnected: "Chat request accepted. You're reconnected!",
+  left: "Left the chat.",
+};
 
 /**
- * Get messages for a chat session (limited to prevent DoS)
- * Limits to 200 most recent messages - more than enough for a 15-minute chat
+ * Add a system message to a chat session's transcript
+ * System messages are never unread and don't count towards rate limits
+ */
+export async function insertSystemMessage(
+  ctx: MutationCtx,
+  args: {
+    chatSessionId: Id<"chatSessions">;
+    matchId?: Id<"matches">;
+    actorId: Id<"users">;
+    payload: SystemPayload;
+  }
+) {
+  return await ctx.db.insert("messages", {
+    chatSessionId: args.chatSessionId,
+    senderId: args.actorId,
+    matchId: args.matchId,
+    content: SYSTEM_MESSAGE_TEXT[args.payload.type],
+    createdAt: Date.now(),
+    kind: "system",
+    payload: args.payload,
+  });
+}
+
+/**
+ * Delete the edit history of a chat session
+ * Called wherever a session's messages are deleted for privacy
+ */
+export async function deleteEditHistory(ctx: MutationCtx, chatSessionId: Id<"chatSessions">) {
+  const edits = await ctx.db
+    .query("messageEdits")
+    .withIndex("by_chat_session", (q) => q.eq("chatSessionId", chatSessionId))
+    .collect();
+
+  for (const edit of edits) {
+    await ctx.db.delete(edit._id);
+  }
+}
+
+/**
+ * End a chat session
+ * Unmatched speed dates also lose their messages and edit history for privacy,
+ * matched sessions keep them as part of the match thread
+ */
+export async function endChatSession(ctx: MutationCtx, chatSession: Doc<"chatSessions">) {
+  if (chatSession.status !== "ended") {
+    await ctx.db.patch(chatSession._id, {
+      status: "ended",
+      endedAt: Date.now(),
+    });
+  }
+
+  if (chatSession.matchId) return;
+
+  const messages = await ctx.db
+    .query("messages")
+    .withIndex("by_chat_session", (q) => q.eq("chatSessionId", chatSession._id))
+    .collect();
+
+  for (const message of messages) {
+    await ctx.db.delete(message._id);
+  }
+  await deleteEditHistory(ctx, chatSession._id);
+}
+
+/**
+ * Get a page of messages for a chat session, newest first
+ * The chat page loads older pages as the user scrolls up
  */
 export const list = query({
   args: {
     chatSessionId: v.id("chatSessions"),
+    paginationOpts: paginationOptsValidator,
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -31,26 +116,81 @@ export const list = query({
       throw new Error("Unauthorized");
     }
 
-    // Get messages (limited to 200 for DoS protection)
-    // Using .take() instead of .collect() prevents fetching unbounded results
-    const messages = await ctx.db
+    const result = await ctx.db
       .query("messages")
       .withIndex("by_chat_and_time", (q) =>
         q.eq("chatSessionId", args.chatSessionId)
       )
-      .order("asc") // Oldest first for display
-      .take(200); // Limit to 200 messages max
+      .order("desc")
+      .paginate(args.paginationOpts);
+
+    // Own messages show whether the other person has seen them
+    return {
+      ...result,
+      page: result.page.map((message) => ({
+        ...message,
+        seen:
+          message.kind !== "system" &&
+          message.senderId === user._id &&
+          message.readAt !== undefined,
+      })),
+    };
+  },
+});
+
+/**
+ * Get chat session details (phase, timers, revealed profile, typing)
+ * Kept separate from the message pages so they can update independently
+ */
+export const getSession = query({
+  args: {
+    chatSessionId: v.id("chatSessions"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    // Get current user
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    // Get chat session
+    const chatSession = await ctx.db.get(args.chatSessionId);
+    if (!chatSession) throw new Error("Chat session not found");
+
+    // Verify user is part of this chat
+    if (chatSession.user1Id !== user._id && chatSession.user2Id !== user._id) {
+      throw new Error("Unauthorized");
+    }
 
-    // Get other user if in extended phase
+    const otherUserId =
+      chatSession.user1Id === user._id
+        ? chatSession.user2Id
+        : chatSession.user1Id;
+    const otherUserDoc = await ctx.db.get(otherUserId);
+
+    // Get other user's public profile if in extended phase
     let otherUser = null;
-    if (chatSession.phase === "extended") {
-      const otherUserId =
-        chatSession.user1Id === user._id
-          ? chatSession.user2Id
-          : chatSession.user1Id;
-      otherUser = await ctx.db.get(otherUserId);
+    if (chatSession.phase === "extended" && otherUserDoc) {
+      otherUser = {
+        _id: otherUserDoc._id,
+        name: otherUserDoc.name,
+        age: otherUserDoc.age,
+        genderIdentity: otherUserDoc.genderIdentity,
+        bio: otherUserDoc.bio,
+        photos: await getPhotoUrls(ctx, otherUserDoc),
+      };
     }
 
+    // Shared interests are safe to show before the reveal and make good openers
+    const sharedInterests = otherUserDoc
+      ? getSharedInterests(user, otherUserDoc).map(getInterestLabel)
+      : [];
+
     // Determine if other user is typing
     const isUser1 = chatSession.user1Id === user._id;
     const otherUserTyping = isUser1
@@ -60,8 +200,9 @@ export const list = query({
       ? chatSession.user2LastTyping
       : chatSession.user1LastTyping;
 
-    // Check if typing status is stale (older than 5 seconds)
-    const typingTimeout = 5000; // 5 seconds
+    // Check if typing status is stale (timeout from settings)
+    const settings = await getSettings(ctx);
+    const typingTimeout = settings.typingTimeoutSeconds * 1000;
     const isTypingActive = otherUserTyping &&
       otherUserLastTyping &&
       (Date.now() - otherUserLastTyping) < typingTimeout;
@@ -71,17 +212,86 @@ export const list = query({
       ? (chatSession.user1WantsSkip ? 1 : 0) + (chatSession.user2WantsSkip ? 1 : 0)
       : 0;
 
+    // Votes for the next extension and how many are left
+    const extendCount = chatSession.phase === "speed_dating"
+      ? (chatSession.user1WantsExtend ? 1 : 0) + (chatSession.user2WantsExtend ? 1 : 0)
+      : 0;
+    const extensionsLeft = Math.max(
+      settings.maxExtensions - (chatSession.extensionCount ?? 0),
+      0
+    );
+
+    // The icebreaker is frozen once someone has said something
+    let icebreaker = null;
+    const icebreakerDoc = chatSession.icebreakerId
+      ? await ctx.db.get(chatSession.icebreakerId)
+      : null;
+    if (icebreakerDoc) {
+      const firstMessage = await ctx.db
+        .query("messages")
+        .withIndex("by_chat_session", (q) => q.eq("chatSessionId", chatSession._id))
+        .filter((q) => q.neq(q.field("kind"), "system"))
+        .first();
+      icebreaker = { prompt: icebreakerDoc.prompt, answered: firstMessage !== null };
+    }
+
     return {
-      messages,
       chatSession,
       otherUser,
       currentUserId: user._id, // Add current user's Convex ID for message ownership comparison
       otherUserIsTyping: isTypingActive || false,
       skipCount,
+      extendCount,
+      extensionsLeft,
+      sharedInterests,
+      icebreaker,
     };
   },
 });
 
+/**
+ * Get earlier messages of a match thread (from previous sessions), newest first
+ */
+export const listHistory = query({
+  args: {
+    chatSessionId: v.id("chatSessions"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const chatSession = await ctx.db.get(args.chatSessionId);
+    if (!chatSession) throw new Error("Chat session not found");
+
+    // Verify user is part of this chat
+    if (chatSession.user1Id !== user._id && chatSession.user2Id !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    // Speed dates without a match have no earlier sessions
+    const matchId = chatSession.matchId;
+    if (!matchId) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
+    return await ctx.db
+      .query("messages")
+      .withIndex("by_match_and_time", (q) =>
+        q.eq("matchId", matchId).lt("createdAt", chatSession.startedAt)
+      )
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
+});
+
 /**
  * Send a message in a chat session
  * Includes input validation and rate limiting
@@ -102,8 +312,9 @@ export const send = mutation({
       throw new Error("Message cannot be empty");
     }
 
-    if (trimmedContent.length > 2000) {
-      throw new Error("Message too long (max 2000 characters)");
+    const settings = await getSettings(ctx);
+    if (trimmedContent.length > settings.maxMessageLength) {
+      throw new Error(`Message too long (max ${settings.maxMessageLength} characters)`);
     }
 
     // Get current user
@@ -114,6 +325,8 @@ export const send = mutation({
 
     if (!user) throw new Error("User not found");
 
+    assertAccountActive(user);
+
     // Get chat session
     const chatSession = await ctx.db.get(args.chatSessionId);
     if (!chatSession) throw new Error("Chat session not found");
@@ -128,9 +341,15 @@ export const send = mutation({
       throw new Error("Chat session is not active");
     }
 
-    // Rate limiting: Check if user sent more than 10 messages in last 10 seconds
+    const otherUserId =
+      chatSession.user1Id === user._id ? chatSession.user2Id : chatSession.user1Id;
+    if (await isBlocked(ctx, user._id, otherUserId)) {
+      throw new Error("You can't message this user");
+    }
+
+    // Rate limiting: Check if user sent too many messages in the window from settings
     const now = Date.now();
-    const tenSecondsAgo = now - 10000;
+    const windowStart = now - settings.rateLimitWindowSeconds * 1000;
 
     const recentMessages = await ctx.db
       .query("messages")
@@ -138,13 +357,14 @@ export const send = mutation({
         q.eq("chatSessionId", args.chatSessionId)
       )
       .order("desc")
-      .take(20); // Take recent messages to check
+      .take(settings.rateLimitMessages * 2); // Take recent messages to check
 
+    // System messages don't count towards the limit
     const userRecentMessages = recentMessages.filter(
-      (m) => m.senderId === user._id && m.createdAt > tenSecondsAgo
+      (m) => m.kind !== "system" && m.senderId === user._id && m.createdAt > windowStart
     );
 
-    if (userRecentMessages.length >= 10) {
+    if (userRecentMessages.length >= settings.rateLimitMessages) {
       throw new Error(
         "You're sending messages too quickly. Please wait a moment."
       );
@@ -154,10 +374,36 @@ export const send = mutation({
     const messageId = await ctx.db.insert("messages", {
       chatSessionId: args.chatSessionId,
       senderId: user._id,
+      matchId: chatSession.matchId,
       content: trimmedContent,
       createdAt: now,
+      kind: "user",
     });
 
+    // Matched partners get notified (speed dates are anonymous and live)
+    if (chatSession.matchId) {
+      await notify(ctx, {
+        userId: otherUserId,
+        type: "new_message",
+        actorId: user._id,
+        matchId: chatSession.matchId,
+        chatSessionId: args.chatSessionId,
+        preview: trimmedContent,
+        messageId,
+      });
+
+      // Pushes for the same chat replace each other through the tag
+      // Nobody needs one for a chat they're looking at
+      if (!(await isViewingChat(ctx, otherUserId, args.chatSessionId))) {
+        await sendPush(ctx, otherUserId, {
+          title: user.name,
+          body: trimmedContent.slice(0, 100),
+          url: `/chat/${args.chatSessionId}`,
+          tag: `chat-${args.chatSessionId}`,
+        });
+      }
+    }
+
     // Clear typing indicator after sending message
     const isUser1 = chatSession.user1Id === user._id;
     if (isUser1) {
@@ -176,11 +422,165 @@ export const send = mutation({
 });
 
 /**
- * Leave a chat session
+ * Get a message the current user may still edit or unsend
+ * Only the sender can, only while the session is active and within the edit window
  */
-export const leaveChat = mutation({
+async function getEditableMessage(ctx: MutationCtx, messageId: Id<"messages">) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new Error("Unauthenticated");
+
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+    .unique();
+
+  if (!user) throw new Error("User not found");
+
+  const message = await ctx.db.get(messageId);
+  if (!message || message.deletedAt !== undefined) {
+    throw new Error("Message not found");
+  }
+
+  if (message.kind === "system" || message.senderId !== user._id) {
+    throw new Error("Unauthorized");
+  }
+
+  const chatSession = await ctx.db.get(message.chatSessionId);
+  if (!chatSession || chatSession.status !== "active") {
+    throw new Error("Chat session is not active");
+  }
+
+  const settings = await getSettings(ctx);
+  if (Date.now() - message.createdAt > settings.editWindowMinutes * 60 * 1000) {
+    throw new Error(`Messages can only be changed for ${settings.editWindowMinutes} minutes`);
+  }
+
+  return { user, message, chatSession, settings };
+}
+
+/**
+ * Keep the recipient's notification and push in line with an edited or unsent message
+ * Only matters when the message is the one their notification previews
+ */
+async function refreshMessagePreview(
+  ctx: MutationCtx,
+  sender: Doc<"users">,
+  chatSession: Doc<"chatSessions">,
+  message: Doc<"messages">,
+  preview?: string
+) {
+  if (!message.matchId) return;
+
+  const otherUserId =
+    chatSession.user1Id === sender._id ? chatSession.user2Id : chatSession.user1Id;
+
+  const unread = await updateMessagePreview(ctx, {
+    userId: otherUserId,
+    matchId: message.matchId,
+    messageId: message._id,
+    preview,
+  });
+
+  // Replaces the shown push, since it has the same tag as the original
+  if (unread && !(await isViewingChat(ctx, otherUserId, chatSession._id))) {
+    await sendPush(ctx, otherUserId, {
+      title: sender.name,
+      body: preview?.slice(0, 100) ?? "Message removed",
+      url: `/chat/${chatSession._id}`,
+      tag: `chat-${chatSession._id}`,
+    });
+  }
+}
+
+/**
+ * Edit one of your messages
+ * The previous version is kept in messageEdits for moderation
+ */
+export const edit = mutation({
+  args: {
+    messageId: v.id("messages"),
+    content: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { user, message, chatSession, settings } = await getEditableMessage(
+      ctx,
+      args.messageId
+    );
+
+    // Same validation as send
+    const trimmedContent = args.content.trim();
+
+    if (!trimmedContent) {
+      throw new Error("Message cannot be empty");
+    }
+
+    if (trimmedContent.length > settings.maxMessageLength) {
+      throw new Error(`Message too long (max ${settings.maxMessageLength} characters)`);
+    }
+
+    if (trimmedContent === message.content) {
+      return { success: true };
+    }
+
+    const now = Date.now();
+    await ctx.db.insert("messageEdits", {
+      messageId: message._id,
+      chatSessionId: message.chatSessionId,
+      senderId: user._id,
+      action: "edit",
+      previousContent: message.content,
+      createdAt: now,
+    });
+
+    await ctx.db.patch(message._id, {
+      content: trimmedContent,
+      editedAt: now,
+    });
+    await refreshMessagePreview(ctx, user, chatSession, message, trimmedContent);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Unsend one of your messages, leaving a "message removed" tombstone
+ * The content is kept in messageEdits for moderation
+ */
+export const unsend = mutation({
+  args: {
+    messageId: v.id("messages"),
+  },
+  handler: async (ctx, args) => {
+    const { user, message, chatSession } = await getEditableMessage(ctx, args.messageId);
+
+    const now = Date.now();
+    await ctx.db.insert("messageEdits", {
+      messageId: message._id,
+      chatSessionId: message.chatSessionId,
+      senderId: user._id,
+      action: "unsend",
+      previousContent: message.content,
+      createdAt: now,
+    });
+
+    await ctx.db.patch(message._id, {
+      content: "",
+      deletedAt: now,
+    });
+    await refreshMessagePreview(ctx, user, chatSession, message);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Mark the other user's messages as read up to a point in time
+ * Called by the chat page as messages scroll into view
+ */
+export const markAsRead = mutation({
   args: {
     chatSessionId: v.id("chatSessions"),
+    upTo: v.number(), // createdAt of the newest message that was seen
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -201,24 +601,106 @@ export const leaveChat = mutation({
       throw new Error("Unauthorized");
     }
 
-    // End the session
-    await ctx.db.patch(args.chatSessionId, {
-      status: "ended",
-      endedAt: Date.now(),
-    });
+    // Matched chats show the whole match thread, so everything seen in it is read
+    // Only unread rows are read there; unmatched speed dates are short enough to scan
+    const matchId = chatSession.matchId;
+    const otherUserId =
+      chatSession.user1Id === user._id ? chatSession.user2Id : chatSession.user1Id;
+    const seenMessages = matchId
+      ? ctx.db
+          .query("messages")
+          .withIndex("by_match_sender_and_read", (q) =>
+            q
+              .eq("matchId", matchId)
+              .eq("senderId", otherUserId)
+              .eq("readAt", undefined)
+              .lte("createdAt", args.upTo)
+          )
+      : ctx.db
+          .query("messages")
+          .withIndex("by_chat_and_time", (q) =>
+            q.eq("chatSessionId", args.chatSessionId).lte("createdAt", args.upTo)
+          )
+          .filter((q) =>
+            q.and(
+              q.eq(q.field("senderId"), otherUserId),
+              q.eq(q.field("readAt"), undefined)
+            )
+          );
+
+    const unreadMessages = await seenMessages
+      .filter((q) => q.neq(q.field("kind"), "system"))
+      .collect();
 
-    // Remove both users from queue to prevent immediate rematching
-    await ctx.db.patch(chatSession.user1Id, { isInQueue: false });
-    await ctx.db.patch(chatSession.user2Id, { isInQueue: false });
+    const now = Date.now();
+    for (const message of unreadMessages) {
+      await ctx.db.patch(message._id, { readAt: now });
+    }
+    const markedCount = unreadMessages.length;
+
+    // The message notification is read once its message has been seen
+    if (markedCount > 0 && matchId) {
+      const messageNotification = await ctx.db
+        .query("notifications")
+        .withIndex("by_user_and_match", (q) =>
+          q.eq("userId", user._id).eq("matchId", matchId)
+        )
+        .filter((q) =>
+          q.and(
+            q.eq(q.field("type"), "new_message"),
+            q.eq(q.field("read"), false),
+            q.lte(q.field("createdAt"), args.upTo)
+          )
+        )
+        .first();
+
+      if (messageNotification) {
+        await ctx.db.patch(messageNotification._id, { read: true });
+      }
+    }
 
-    // Delete all messages for privacy
-    const messages = await ctx.db
-      .query("messages")
-      .withIndex("by_chat_session", (q) => q.eq("chatSessionId", args.chatSessionId))
-      .collect();
+    return { markedCount };
+  },
+});
 
-    for (const message of messages) {
-      await ctx.db.delete(message._id);
+/**
+ * Leave a chat session
+ */
+export const leaveChat = mutation({
+  args: {
+    chatSessionId: v.id("chatSessions"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const chatSession = await ctx.db.get(args.chatSessionId);
+    if (!chatSession) throw new Error("Chat session not found");
+
+    // Verify user is part of this chat
+    if (chatSession.user1Id !== user._id && chatSession.user2Id !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    // End the session; matched couples keep their thread for the next reconnect
+    await endChatSession(ctx, chatSession);
+
+    // Tell the other person inline, not only through the "chat ended" overlay
+    // Unmatched speed dates were just deleted, so there's no transcript to add to
+    if (chatSession.status !== "ended" && chatSession.matchId) {
+      await insertSystemMessage(ctx, {
+        chatSessionId: args.chatSessionId,
+        matchId: chatSession.matchId,
+        actorId: user._id,
+        payload: { type: "left" },
+      });
     }
 
     return { success: true };
@@ -0,0 +1,221 @@
+import { v } from "convex/values";
+import { mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getPhotoUrls } from "./profile";
+import { leaveQueue } from "./queue";
+import { endChatSession } from "./messages";
+
+/**
+ * Throw if the user is suspended or banned
+ * Used by every entry point that lets a user reach someone else
+ */
+export function assertAccountActive(user: Doc<"users">) {
+  if (user.bannedAt !== undefined) {
+    throw new Error("Your account has been banned");
+  }
+
+  if (user.suspendedUntil !== undefined && user.suspendedUntil > Date.now()) {
+    const until = new Date(user.suspendedUntil).toUTCString();
+    throw new Error(`Your account is suspended until ${until}`);
+  }
+}
+
+/**
+ * Check that another user isn't suspended or banned before connecting someone to them
+ */
+export function isAccountActive(user: Doc<"users">) {
+  if (user.bannedAt !== undefined) return false;
+  return user.suspendedUntil === undefined || user.suspendedUntil <= Date.now();
+}
+
+/**
+ * Get the current user and verify they are an admin
+ */
+export async function requireAdmin(ctx: QueryCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new Error("Unauthenticated");
+
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+    .unique();
+
+  if (!user) throw new Error("User not found");
+
+  if (user.role !== "admin") {
+    throw new Error("Unauthorized");
+  }
+
+  return user;
+}
+
+/**
+ * Take a user out of the queue, end their open chats and cancel their pending requests
+ */
+async function removeFromPlatform(ctx: MutationCtx, userId: Id<"users">) {
+  await leaveQueue(ctx, userId);
+
+  const sessionsAsUser1 = await ctx.db
+    .query("chatSessions")
+    .withIndex("by_user1", (q) => q.eq("user1Id", userId))
+    .filter((q) => q.neq(q.field("status"), "ended"))
+    .collect();
+  const sessionsAsUser2 = await ctx.db
+    .query("chatSessions")
+    .withIndex("by_user2", (q) => q.eq("user2Id", userId))
+    .filter((q) => q.neq(q.field("status"), "ended"))
+    .collect();
+
+  for (const session of [...sessionsAsUser1, ...sessionsAsUser2]) {
+    await endChatSession(ctx, session);
+  }
+
+  const sentRequests = await ctx.db
+    .query("chatRequests")
+    .withIndex("by_from_user", (q) => q.eq("fromUserId", userId))
+    .filter((q) => q.eq(q.field("status"), "pending"))
+    .collect();
+  const receivedRequests = await ctx.db
+    .query("chatRequests")
+    .withIndex("by_to_user_and_status", (q) =>
+      q.eq("toUserId", userId).eq("status", "pending")
+    )
+    .collect();
+
+  const now = Date.now();
+  for (const request of [...sentRequests, ...receivedRequests]) {
+    await ctx.db.patch(request._id, {
+      status: "cancelled",
+      respondedAt: now,
+    });
+  }
+}
+
+/**
+ * List open reports with the reported user's profile (admin only)
+ */
+export const listOpenReports = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+
+    const reports = await ctx.db
+      .query("reports")
+      .withIndex("by_status", (q) => q.eq("status", "open"))
+      .order("asc") // Oldest first so nothing waits too long
+      .take(100);
+
+    return await Promise.all(
+      reports.map(async (report) => {
+        const reportedUser = await ctx.db.get(report.reportedUserId);
+        const reporter = await ctx.db.get(report.reporterId);
+
+        // Earlier reports against the same user help spot repeat offenders
+        const reportsAgainstUser = await ctx.db
+          .query("reports")
+          .withIndex("by_reported_user", (q) => q.eq("reportedUserId", report.reportedUserId))
+          .collect();
+
+        return {
+          _id: report._id,
+          reason: report.reason,
+          details: report.details,
+          createdAt: report.createdAt,
+          reporterName: reporter?.name ?? "Deleted user",
+          reportedUser: reportedUser
+            ? {
+                _id: reportedUser._id,
+                name: reportedUser.name,
+                email: reportedUser.email,
+                age: reportedUser.age,
+                genderIdentity: reportedUser.genderIdentity,
+                bio: reportedUser.bio,
+                photos: await getPhotoUrls(ctx, reportedUser),
+                warningCount: reportedUser.warningCount ?? 0,
+                suspendedUntil: reportedUser.suspendedUntil,
+                bannedAt: reportedUser.bannedAt,
+                totalReports: reportsAgainstUser.length,
+              }
+            : null,
+          messageExcerpts: report.messageExcerpts.map((message) => ({
+            fromReportedUser: message.senderId === report.reportedUserId,
+            content: message.content,
+            createdAt: message.createdAt,
+            previousVersions: message.previousVersions ?? [],
+            unsent: message.unsent ?? false,
+          })),
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Resolve a report (admin only)
+ * Warn, suspend and ban act on the reported user
+ */
+export const resolveReport = mutation({
+  args: {
+    reportId: v.id("reports"),
+    action: v.union(
+      v.literal("dismiss"),
+      v.literal("warn"),
+      v.literal("suspend"),
+      v.literal("ban")
+    ),
+    suspendDays: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
+    const report = await ctx.db.get(args.reportId);
+    if (!report) throw new Error("Report not found");
+
+    if (report.status !== "open") {
+      throw new Error("Report has already been resolved");
+    }
+
+    const reportedUser = await ctx.db.get(report.reportedUserId);
+    const now = Date.now();
+
+    let resolution: "dismissed" | "warned" | "suspended" | "banned" = "dismissed";
+
+    if (args.action === "warn") {
+      if (!reportedUser) throw new Error("Reported user not found");
+
+      await ctx.db.patch(reportedUser._id, {
+        warningCount: (reportedUser.warningCount ?? 0) + 1,
+        lastWarnedAt: now,
+      });
+      resolution = "warned";
+    } else if (args.action === "suspend") {
+      if (!reportedUser) throw new Error("Reported user not found");
+
+      const days = args.suspendDays;
+      if (days === undefined || !Number.isInteger(days) || days < 1 || days > 365) {
+        throw new Error("Suspension must be between 1 and 365 days");
+      }
+
+      await ctx.db.patch(reportedUser._id, {
+        suspendedUntil: now + days * 24 * 60 * 60 * 1000,
+      });
+      await removeFromPlatform(ctx, reportedUser._id);
+      resolution = "suspended";
+    } else if (args.action === "ban") {
+      if (!reportedUser) throw new Error("Reported user not found");
+
+      await ctx.db.patch(reportedUser._id, { bannedAt: now });
+      await removeFromPlatform(ctx, reportedUser._id);
+      resolution = "banned";
+    }
+
+    await ctx.db.patch(args.reportId, {
+      status: "resolved",
+      resolution,
+      resolvedBy: admin._id,
+      resolvedAt: now,
+    });
+
+    return { success: true, resolution };
+  },
+});
@@ -0,0 +1,217 @@
+import { v } from "convex/values";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getPhotoUrls } from "./profile";
+
+// Longest message preview stored on a notification
+const PREVIEW_LENGTH = 100;
+
+/**
+ * Create a notification for a user
+ * An unread message notification for the same match is replaced,
+ * so a busy chat shows up once with its latest message
+ */
+export async function notify(
+  ctx: MutationCtx,
+  notification: {
+    userId: Id<"users">;
+    type: Doc<"notifications">["type"];
+    actorId: Id<"users">;
+    matchId?: Id<"matches">;
+    chatSessionId?: Id<"chatSessions">;
+    preview?: string;
+    messageId?: Id<"messages">;
+  }
+) {
+  const now = Date.now();
+  const preview = notification.preview?.slice(0, PREVIEW_LENGTH);
+
+  if (notification.type === "new_message" && notification.matchId) {
+    const existing = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_and_match", (q) =>
+        q.eq("userId", notification.userId).eq("matchId", notification.matchId)
+      )
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("type"), "new_message"),
+          q.eq(q.field("read"), false)
+        )
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+  }
+
+  return await ctx.db.insert("notifications", {
+    ...notification,
+    preview,
+    read: false,
+    createdAt: now,
+  });
+}
+
+/**
+ * Update the preview of a message notification after the message was edited or unsent
+ * Pass no preview to blank it; returns whether the notification is still unread
+ */
+export async function updateMessagePreview(
+  ctx: MutationCtx,
+  message: {
+    userId: Id<"users">;
+    matchId: Id<"matches">;
+    messageId: Id<"messages">;
+    preview?: string;
+  }
+) {
+  const notification = await ctx.db
+    .query("notifications")
+    .withIndex("by_user_and_match", (q) =>
+      q.eq("userId", message.userId).eq("matchId", message.matchId)
+    )
+    .filter((q) => q.eq(q.field("messageId"), message.messageId))
+    .first();
+
+  if (!notification) return false;
+
+  await ctx.db.patch(notification._id, {
+    preview: message.preview?.slice(0, PREVIEW_LENGTH),
+  });
+  return !notification.read;
+}
+
+/**
+ * Get the current user's latest notifications, newest first
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const notifications = await ctx.db
+      .query("notifications")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .take(50);
+
+    return await Promise.all(
+      notifications.map(async (notification) => {
+        const actor = await ctx.db.get(notification.actorId);
+
+        return {
+          _id: notification._id,
+          type: notification.type,
+          matchId: notification.matchId,
+          chatSessionId: notification.chatSessionId,
+          preview: notification.preview,
+          read: notification.read,
+          createdAt: notification.createdAt,
+          actor: actor
+            ? {
+                _id: actor._id,
+                name: actor.name,
+                photo: (await getPhotoUrls(ctx, actor))[0],
+              }
+            : null,
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Count the current user's unread notifications (dashboard badge)
+ */
+export const unreadCount = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_and_read", (q) => q.eq("userId", user._id).eq("read", false))
+      .collect();
+
+    return unread.length;
+  },
+});
+
+/**
+ * Mark one notification as read
+ */
+export const markAsRead = mutation({
+  args: {
+    notificationId: v.id("notifications"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const notification = await ctx.db.get(args.notificationId);
+    if (!notification) throw new Error("Notification not found");
+
+    if (notification.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    if (!notification.read) {
+      await ctx.db.patch(args.notificationId, { read: true });
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Mark all of the current user's notifications as read
+ */
+export const markAllAsRead = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_and_read", (q) => q.eq("userId", user._id).eq("read", false))
+      .collect();
+
+    for (const notification of unread) {
+      await ctx.db.patch(notification._id, { read: true });
+    }
+
+    return { count: unread.length };
+  },
+});
@@ -0,0 +1,83 @@
+import { v } from "convex/values";
+import { mutation, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+
+// A chat counts as open for this long after its last heartbeat
+// The chat page refreshes it well within this while the tab is visible
+export const PRESENCE_TIMEOUT_MS = 45 * 1000; // 45 seconds
+
+/**
+ * Check whether the user has the chat open on screen right now
+ * Used to skip push notifications they would see live anyway
+ */
+export async function isViewingChat(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  chatSessionId: Id<"chatSessions">
+) {
+  const presence = await ctx.db
+    .query("presence")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .unique();
+
+  return (
+    presence !== null &&
+    presence.chatSessionId === chatSessionId &&
+    Date.now() - presence.lastSeenAt < PRESENCE_TIMEOUT_MS
+  );
+}
+
+/**
+ * Record which chat the current user is looking at
+ * Called periodically by the chat page while visible, and with visible: false when hidden or closed
+ */
+export const update = mutation({
+  args: {
+    chatSessionId: v.id("chatSessions"),
+    visible: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const existing = await ctx.db
+      .query("presence")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .unique();
+
+    if (!args.visible) {
+      // Only clear it if another tab hasn't moved on to a different chat
+      if (existing && existing.chatSessionId === args.chatSessionId) {
+        await ctx.db.delete(existing._id);
+      }
+      return;
+    }
+
+    const chatSession = await ctx.db.get(args.chatSessionId);
+    if (!chatSession) throw new Error("Chat session not found");
+
+    if (chatSession.user1Id !== user._id && chatSession.user2Id !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        chatSessionId: args.chatSessionId,
+        lastSeenAt: Date.now(),
+      });
+    } else {
+      await ctx.db.insert("presence", {
+        userId: user._id,
+        chatSessionId: args.chatSessionId,
+        lastSeenAt: Date.now(),
+      });
+    }
+  },
+});
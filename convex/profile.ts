@@ -1,5 +1,115 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import {
+  mutation,
+  query,
+  internalAction,
+  internalMutation,
+  internalQuery,
+  MutationCtx,
+  QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { isBlocked } from "./blocks";
+import { getCooldownEndsAt } from "./chatRequests";
+import { INTERESTS, MAX_INTERESTS, QUESTIONS } from "./compatibility";
+import { genderIdentity } from "./genders";
+
+// Maximum number of photos in a gallery
+const MAX_PHOTOS = 6;
+
+// Uploads have to be added to a gallery within this long
+// Older unclaimed files (e.g. photos from before ownership was tracked) are refused
+const UPLOAD_CLAIM_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Resolve a user's photo URLs, primary photo first
+ * Storage URLs are generated on read so they never go stale
+ */
+export async function getPhotoUrls(ctx: QueryCtx, user: Doc<"users">) {
+  const urls = await Promise.all(
+    (user.photoStorageIds ?? []).map((storageId) => ctx.storage.getUrl(storageId))
+  );
+
+  // Legacy URLs come last until migrateLegacyPhotos moves them into the gallery
+  return [
+    ...urls.filter((url): url is string => url !== null),
+    ...(user.photos ?? []),
+  ];
+}
+
+/**
+ * Record that the user uploaded a file, or check that they did
+ * Throws for files uploaded by someone else
+ */
+async function claimUpload(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  storageId: Id<"_storage">
+) {
+  const upload = await ctx.db
+    .query("photoUploads")
+    .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+    .unique();
+
+  if (upload) {
+    if (upload.userId !== userId) throw new Error("Photo not found");
+    return;
+  }
+
+  // Unclaimed files must be fresh uploads
+  const file = await ctx.db.system.get(storageId);
+  if (!file || Date.now() - file._creationTime > UPLOAD_CLAIM_WINDOW_MS) {
+    throw new Error("Photo not found");
+  }
+
+  await ctx.db.insert("photoUploads", { storageId, userId, createdAt: Date.now() });
+}
+
+/**
+ * Delete a gallery file along with its upload record
+ */
+async function deletePhoto(ctx: MutationCtx, storageId: Id<"_storage">) {
+  const upload = await ctx.db
+    .query("photoUploads")
+    .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+    .unique();
+  if (upload) await ctx.db.delete(upload._id);
+
+  await ctx.storage.delete(storageId);
+}
+
+/**
+ * Get the current user for a gallery change
+ */
+async function getGalleryOwner(ctx: MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new Error("Unauthenticated");
+
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+    .unique();
+
+  if (!user) throw new Error("User not found");
+
+  return { user, photoStorageIds: user.photoStorageIds ?? [] };
+}
+
+/**
+ * Save a new gallery order
+ * Legacy photo URLs are left alone (see migrateLegacyPhotos)
+ */
+async function saveGallery(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  photoStorageIds: Id<"_storage">[]
+) {
+  await ctx.db.patch(userId, {
+    photoStorageIds,
+    updatedAt: Date.now(),
+  });
+}
 
 /**
  * Get current user's profile
@@ -17,7 +127,87 @@ export const get = query({
 
     if (!user) throw new Error("User not found");
 
-    return user;
+    // Gallery with storage IDs for managing photos
+    const gallery = await Promise.all(
+      (user.photoStorageIds ?? []).map(async (storageId) => ({
+        storageId,
+        url: await ctx.storage.getUrl(storageId),
+      }))
+    );
+
+    return {
+      ...user,
+      photos: await getPhotoUrls(ctx, user),
+      gallery,
+      legacyPhotos: user.photos ?? [],
+    };
+  },
+});
+
+/**
+ * Get a matched user's profile
+ * Returns null unless the current user has a match with them
+ */
+export const getMatchedProfile = query({
+  args: {
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    // Matches store the pair in either order
+    const match =
+      (await ctx.db
+        .query("matches")
+        .withIndex("by_users", (q) => q.eq("user1Id", user._id).eq("user2Id", args.userId))
+        .first()) ??
+      (await ctx.db
+        .query("matches")
+        .withIndex("by_users", (q) => q.eq("user1Id", args.userId).eq("user2Id", user._id))
+        .first());
+
+    if (!match) return null;
+    if (await isBlocked(ctx, user._id, args.userId)) return null;
+
+    const otherUser = await ctx.db.get(args.userId);
+    if (!otherUser) return null;
+
+    const chatSession = await ctx.db.get(match.chatSessionId);
+
+    const pendingRequest = await ctx.db
+      .query("chatRequests")
+      .withIndex("by_match_and_status", (q) =>
+        q.eq("matchId", match._id).eq("status", "pending")
+      )
+      .first();
+
+    return {
+      _id: otherUser._id,
+      name: otherUser.name,
+      age: otherUser.age,
+      genderIdentity: otherUser.genderIdentity,
+      bio: otherUser.bio,
+      photos: await getPhotoUrls(ctx, otherUser),
+      matchId: match._id,
+      matchedAt: match.matchedAt,
+      chatSessionId: match.chatSessionId,
+      hasActiveChat: chatSession?.status === "active",
+      hasPendingRequest: !!pendingRequest,
+      isRequestSender: pendingRequest?.fromUserId === user._id,
+      pendingRequestId: pendingRequest?._id,
+      requestExpiresAt: pendingRequest?.expiresAt,
+      requestCooldownEndsAt: pendingRequest
+        ? null
+        : await getCooldownEndsAt(ctx, match._id, user._id),
+    };
   },
 });
 
@@ -40,10 +230,28 @@ export const generateUploadUrl = mutation({
 export const update = mutation({
   args: {
     age: v.optional(v.number()),
-    gender: v.optional(v.union(v.literal("male"), v.literal("female"), v.literal("other"))),
-    genderPreference: v.optional(v.union(v.literal("male"), v.literal("female"), v.literal("both"))),
+    genderIdentity: v.optional(genderIdentity),
+    interestedIn: v.optional(v.array(genderIdentity)),
     bio: v.optional(v.string()),
-    photoStorageId: v.optional(v.id("_storage")),
+    // null removes the age bound
+    minAgePreference: v.optional(v.union(v.number(), v.null())),
+    maxAgePreference: v.optional(v.union(v.number(), v.null())),
+    // null removes the location
+    location: v.optional(v.union(
+      v.object({
+        latitude: v.number(),
+        longitude: v.number(),
+      }),
+      v.null()
+    )),
+    // null removes the distance limit
+    maxDistanceKm: v.optional(v.union(v.number(), v.null())),
+    emailPreferences: v.optional(v.object({
+      chatRequests: v.boolean(),
+      dailyDigest: v.boolean(),
+    })),
+    interests: v.optional(v.array(v.string())),
+    questionnaireAnswers: v.optional(v.record(v.string(), v.string())),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -66,27 +274,92 @@ export const update = mutation({
       throw new Error("Bio must be 500 characters or less");
     }
 
+    // Validate age range preference against any stored bound
+    const minAge =
+      args.minAgePreference === undefined
+        ? user.minAgePreference
+        : args.minAgePreference ?? undefined;
+    const maxAge =
+      args.maxAgePreference === undefined
+        ? user.maxAgePreference
+        : args.maxAgePreference ?? undefined;
+    for (const bound of [args.minAgePreference, args.maxAgePreference]) {
+      if (bound !== undefined && bound !== null && (bound < 18 || bound > 100)) {
+        throw new Error("Preferred ages must be between 18 and 100");
+      }
+    }
+    if (minAge !== undefined && maxAge !== undefined && minAge > maxAge) {
+      throw new Error("Minimum preferred age cannot be above the maximum");
+    }
+
+    // Validate location and distance
+    if (args.location !== undefined && args.location !== null) {
+      const { latitude, longitude } = args.location;
+      if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+        throw new Error("Invalid location");
+      }
+    }
+    if (
+      args.maxDistanceKm !== undefined &&
+      args.maxDistanceKm !== null &&
+      (args.maxDistanceKm < 1 || args.maxDistanceKm > 500)
+    ) {
+      throw new Error("Maximum distance must be between 1 and 500 km");
+    }
+
+    if (args.interestedIn !== undefined && args.interestedIn.length === 0) {
+      throw new Error("Pick at least one gender you're interested in");
+    }
+
+    // Validate interests and answers against compatibility.ts
+    if (args.interests !== undefined) {
+      if (args.interests.length > MAX_INTERESTS) {
+        throw new Error(`Pick at most ${MAX_INTERESTS} interests`);
+      }
+      if (args.interests.some((id) => !INTERESTS.some((interest) => interest.id === id))) {
+        throw new Error("Unknown interest");
+      }
+    }
+    if (args.questionnaireAnswers !== undefined) {
+      for (const [questionId, answer] of Object.entries(args.questionnaireAnswers)) {
+        const question = QUESTIONS.find((q) => q.id === questionId);
+        if (!question || !question.options.some((option) => option.id === answer)) {
+          throw new Error("Invalid questionnaire answer");
+        }
+      }
+    }
+
     const updateData: any = {
       updatedAt: Date.now(),
     };
 
     if (args.age !== undefined) updateData.age = args.age;
-    if (args.gender !== undefined) updateData.gender = args.gender;
-    if (args.genderPreference !== undefined) updateData.genderPreference = args.genderPreference;
+    if (args.genderIdentity !== undefined) updateData.genderIdentity = args.genderIdentity;
+    if (args.interestedIn !== undefined) updateData.interestedIn = [...new Set(args.interestedIn)];
     if (args.bio !== undefined) updateData.bio = args.bio;
+    if (args.minAgePreference !== undefined) {
+      updateData.minAgePreference = args.minAgePreference ?? undefined;
+    }
+    if (args.maxAgePreference !== undefined) {
+      updateData.maxAgePreference = args.maxAgePreference ?? undefined;
+    }
+    if (args.maxDistanceKm !== undefined) {
+      updateData.maxDistanceKm = args.maxDistanceKm ?? undefined;
+    }
+    if (args.emailPreferences !== undefined) updateData.emailPreferences = args.emailPreferences;
+    if (args.interests !== undefined) updateData.interests = [...new Set(args.interests)];
+    if (args.questionnaireAnswers !== undefined) {
+      updateData.questionnaireAnswers = args.questionnaireAnswers;
+    }
 
-    // Handle photo update
-    if (args.photoStorageId !== undefined) {
-      // Get the storage URL
-      const photoUrl = await ctx.storage.getUrl(args.photoStorageId);
-      if (photoUrl) {
-        // Delete old photo if exists
-        if (user.photos && user.photos.length > 0) {
-          // Note: In a production app, you'd want to track storage IDs to delete old files
-          // For now, we just replace the URL
-        }
-        updateData.photos = [photoUrl];
-      }
+    // Only keep a coarse location (2 decimals is roughly 1km)
+    if (args.location !== undefined) {
+      updateData.location = args.location
+        ? {
+            latitude: Math.round(args.location.latitude * 100) / 100,
+            longitude: Math.round(args.location.longitude * 100) / 100,
+          }
+        : undefined;
     }
 
     await ctx.db.patch(user._id, updateData);
@@ -95,6 +368,137 @@ export const update = mutation({
   },
 });
 
+/**
+ * Add an uploaded photo to the end of the gallery
+ */
+export const addPhoto = mutation({
+  args: {
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const { user, photoStorageIds } = await getGalleryOwner(ctx);
+
+    await claimUpload(ctx, user._id, args.storageId);
+
+    if (photoStorageIds.includes(args.storageId)) {
+      throw new Error("Photo is already in your gallery");
+    }
+
+    if (photoStorageIds.length >= MAX_PHOTOS) {
+      // Don't keep the orphaned upload
+      await deletePhoto(ctx, args.storageId);
+      throw new Error(`You can have at most ${MAX_PHOTOS} photos`);
+    }
+
+    await saveGallery(ctx, user._id, [...photoStorageIds, args.storageId]);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Replace a gallery photo in place and delete the old file
+ */
+export const replacePhoto = mutation({
+  args: {
+    oldStorageId: v.id("_storage"),
+    newStorageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const { user, photoStorageIds } = await getGalleryOwner(ctx);
+
+    const index = photoStorageIds.indexOf(args.oldStorageId);
+    if (index === -1) throw new Error("Photo not found");
+
+    await claimUpload(ctx, user._id, args.newStorageId);
+    if (photoStorageIds.includes(args.newStorageId)) {
+      throw new Error("Photo is already in your gallery");
+    }
+
+    const updated = [...photoStorageIds];
+    updated[index] = args.newStorageId;
+
+    await saveGallery(ctx, user._id, updated);
+    await deletePhoto(ctx, args.oldStorageId);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Remove a photo from the gallery and delete the file
+ */
+export const removePhoto = mutation({
+  args: {
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const { user, photoStorageIds } = await getGalleryOwner(ctx);
+
+    if (!photoStorageIds.includes(args.storageId)) {
+      throw new Error("Photo not found");
+    }
+
+    await saveGallery(
+      ctx,
+      user._id,
+      photoStorageIds.filter((id) => id !== args.storageId)
+    );
+    await deletePhoto(ctx, args.storageId);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Reorder the gallery (the first photo is the primary one)
+ */
+export const reorderPhotos = mutation({
+  args: {
+    storageIds: v.array(v.id("_storage")),
+  },
+  handler: async (ctx, args) => {
+    const { user, photoStorageIds } = await getGalleryOwner(ctx);
+
+    // Must be the same photos, only in a different order
+    const isSamePhotos =
+      args.storageIds.length === photoStorageIds.length &&
+      new Set(args.storageIds).size === args.storageIds.length &&
+      args.storageIds.every((id) => photoStorageIds.includes(id));
+
+    if (!isSamePhotos) {
+      throw new Error("Photo order doesn't match your gallery");
+    }
+
+    await saveGallery(ctx, user._id, args.storageIds);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Make a photo the primary one by moving it to the front
+ */
+export const setPrimaryPhoto = mutation({
+  args: {
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const { user, photoStorageIds } = await getGalleryOwner(ctx);
+
+    if (!photoStorageIds.includes(args.storageId)) {
+      throw new Error("Photo not found");
+    }
+
+    await saveGallery(ctx, user._id, [
+      args.storageId,
+      ...photoStorageIds.filter((id) => id !== args.storageId),
+    ]);
+
+    return { success: true };
+  },
+});
+
 /**
  * Get profile photo URL from storage ID
  */
@@ -106,3 +510,98 @@ export const getPhotoUrl = query({
     return await ctx.storage.getUrl(args.storageId);
   },
 });
+
+/**
+ * List users who still have legacy photo URLs
+ */
+export const listLegacyPhotoUsers = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const users = await ctx.db
+      .query("users")
+      .filter((q) => q.neq(q.field("photos"), undefined))
+      .collect();
+
+    return users.map((user) => ({ userId: user._id, photos: user.photos ?? [] }));
+  },
+});
+
+/**
+ * Put copied legacy photos at the front of a user's gallery and clear the URLs
+ */
+export const attachLegacyPhotos = internalMutation({
+  args: {
+    userId: v.id("users"),
+    storageIds: v.array(v.id("_storage")),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId);
+    if (!user) {
+      for (const storageId of args.storageIds) {
+        await ctx.storage.delete(storageId);
+      }
+      return;
+    }
+
+    const gallery = [...args.storageIds, ...(user.photoStorageIds ?? [])];
+    const kept = gallery.slice(0, MAX_PHOTOS);
+
+    // Copies that don't fit are not kept
+    for (const storageId of args.storageIds) {
+      if (kept.includes(storageId)) {
+        await ctx.db.insert("photoUploads", {
+          storageId,
+          userId: user._id,
+          createdAt: Date.now(),
+        });
+      } else {
+        await ctx.storage.delete(storageId);
+      }
+    }
+
+    await ctx.db.patch(user._id, {
+      photoStorageIds: kept,
+      photos: undefined,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * One-off migration copying legacy photo URLs into the gallery
+ * Run from the Convex dashboard after deploying photo ownership
+ * Photos that can't be fetched are dropped
+ */
+export const migrateLegacyPhotos = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const users: { userId: Id<"users">; photos: string[] }[] = await ctx.runQuery(
+      internal.profile.listLegacyPhotoUsers,
+      {}
+    );
+
+    let migratedPhotos = 0;
+    for (const { userId, photos } of users) {
+      const storageIds: Id<"_storage">[] = [];
+      for (const url of photos) {
+        try {
+          const response = await fetch(url);
+          if (!response.ok) {
+            console.log(`[migrateLegacyPhotos] Couldn't fetch a photo of ${userId}: ${response.status}`);
+            continue;
+          }
+          storageIds.push(await ctx.storage.store(await response.blob()));
+        } catch (error) {
+          // One dead URL shouldn't stop everyone else's migration
+          console.error(`[migrateLegacyPhotos] Failed to copy a photo of ${userId}:`, error);
+        }
+      }
+
+      await ctx.runMutation(internal.profile.attachLegacyPhotos, { userId, storageIds });
+      migratedPhotos += storageIds.length;
+    }
+
+    console.log(`[migrateLegacyPhotos] Copied ${migratedPhotos} photos of ${users.length} users`);
+    return { migratedPhotos };
+  },
+});
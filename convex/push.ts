@@ -0,0 +1,165 @@
+import { v } from "convex/values";
+import { mutation, internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+
+/**
+ * Send a push notification to every browser the user subscribed
+ * Delivery happens in pushActions.send so the calling mutation isn't slowed down
+ */
+export async function sendPush(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  notification: {
+    title: string;
+    body: string;
+    url: string;
+    tag?: string; // Notifications with the same tag replace each other
+  }
+) {
+  const subscription = await ctx.db
+    .query("pushSubscriptions")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .first();
+
+  // Nothing to deliver to
+  if (!subscription) return;
+
+  await ctx.scheduler.runAfter(0, internal.pushActions.send, {
+    userId,
+    ...notification,
+  });
+}
+
+/**
+ * Save a subscription with its keys, replacing any previous owner of the endpoint
+ */
+async function saveSubscription(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  subscription: { endpoint: string; p256dh: string; auth: string }
+) {
+  const existing = await ctx.db
+    .query("pushSubscriptions")
+    .withIndex("by_endpoint", (q) => q.eq("endpoint", subscription.endpoint))
+    .unique();
+
+  if (existing) {
+    await ctx.db.patch(existing._id, { userId, ...subscription });
+    return existing._id;
+  }
+
+  return await ctx.db.insert("pushSubscriptions", {
+    userId,
+    ...subscription,
+    createdAt: Date.now(),
+  });
+}
+
+/**
+ * Save the current browser's push subscription
+ */
+export const subscribe = mutation({
+  args: {
+    endpoint: v.string(),
+    p256dh: v.string(),
+    auth: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    if (!args.endpoint.startsWith("https://")) {
+      throw new Error("Invalid push endpoint");
+    }
+
+    await saveSubscription(ctx, user._id, args);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Remove the current browser's push subscription
+ */
+export const unsubscribe = mutation({
+  args: {
+    endpoint: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const subscription = await ctx.db
+      .query("pushSubscriptions")
+      .withIndex("by_endpoint", (q) => q.eq("endpoint", args.endpoint))
+      .unique();
+
+    if (subscription && subscription.userId === user._id) {
+      await ctx.db.delete(subscription._id);
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Subscribe a user to a local push endpoint stub (development only)
+ * Run with `npx convex run push:addTestSubscription` using the output of scripts/push-endpoint-stub.mjs
+ */
+export const addTestSubscription = internalMutation({
+  args: {
+    userId: v.id("users"),
+    endpoint: v.string(),
+    p256dh: v.string(),
+    auth: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { userId, ...subscription } = args;
+    return await saveSubscription(ctx, userId, subscription);
+  },
+});
+
+/**
+ * Get all of a user's push subscriptions
+ */
+export const listForUser = internalQuery({
+  args: {
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("pushSubscriptions")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+  },
+});
+
+/**
+ * Remove a subscription the push service no longer accepts
+ */
+export const removeExpired = internalMutation({
+  args: {
+    subscriptionId: v.id("pushSubscriptions"),
+  },
+  handler: async (ctx, args) => {
+    const subscription = await ctx.db.get(args.subscriptionId);
+    if (subscription) {
+      await ctx.db.delete(args.subscriptionId);
+    }
+  },
+});
@@ -0,0 +1,73 @@
+"use node";
+
+import { v } from "convex/values";
+import webpush from "web-push";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+
+/**
+ * Deliver a push notification to each of the user's subscriptions
+ * Scheduled by push.sendPush, signed with the VAPID_* env variables
+ */
+export const send = internalAction({
+  args: {
+    userId: v.id("users"),
+    title: v.string(),
+    body: v.string(),
+    url: v.string(),
+    tag: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const publicKey = process.env.VAPID_PUBLIC_KEY;
+    const privateKey = process.env.VAPID_PRIVATE_KEY;
+    if (!publicKey || !privateKey) {
+      console.warn("[push] VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY are not configured, skipping");
+      return;
+    }
+
+    const vapidDetails = {
+      subject: process.env.VAPID_SUBJECT ?? "mailto:support@example.com",
+      publicKey,
+      privateKey,
+    };
+
+    const subscriptions = await ctx.runQuery(internal.push.listForUser, {
+      userId: args.userId,
+    });
+
+    const { userId, ...notification } = args;
+    const payload = JSON.stringify(notification);
+
+    for (const subscription of subscriptions) {
+      // Sign and encrypt with web-push, then deliver with fetch so plain-http
+      // endpoints (scripts/push-endpoint-stub.mjs) work in development
+      const request = webpush.generateRequestDetails(
+        {
+          endpoint: subscription.endpoint,
+          keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+        },
+        payload,
+        { vapidDetails, TTL: 60 * 60 } // Stale after an hour
+      );
+
+      try {
+        const response = await fetch(request.endpoint, {
+          method: request.method,
+          headers: request.headers,
+          body: request.body ? new Uint8Array(request.body) : null,
+        });
+
+        // The browser unsubscribed or the subscription expired
+        if (response.status === 404 || response.status === 410) {
+          await ctx.runMutation(internal.push.removeExpired, {
+            subscriptionId: subscription._id,
+          });
+        } else if (!response.ok) {
+          console.error(`[push] Push service rejected notification for ${userId}: ${response.status}`);
+        }
+      } catch (error) {
+        console.error(`[push] Failed to notify ${userId}:`, error);
+      }
+    }
+  },
+});
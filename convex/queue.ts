@@ -1,10 +1,210 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { mutation, query, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { Doc, Id } from "./_generated/dataModel";
+import { getBlockedUserIds } from "./blocks";
+import { assertAccountActive } from "./moderation";
+import { sendPush } from "./push";
+import { compatibilityScore } from "./compatibility";
+import { getSettings } from "./settings";
+import { getActiveIcebreakerIds, pickIcebreaker } from "./icebreakers";
+
+// Users whose dashboard hasn't checked in for this long are treated as gone
+// (background tabs may only run timers once a minute)
+const QUEUE_HEARTBEAT_TIMEOUT_MS = 90 * 1000; // 90 seconds
+// A visible heartbeat this recent means the dashboard is on screen
+const QUEUE_PRESENCE_TIMEOUT_MS = 45 * 1000; // 45 seconds
+
+// Recent speed dates used to estimate how long a search takes
+const MATCH_RATE_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+
+// Longest-waiting entries considered by each matcher run
+const MATCH_BATCH_SIZE = 100;
+
+// Limits that keep each matcher run well inside Convex's per-mutation read limits
+const MAX_PAIRS_PER_RUN = 25;
+const MAX_PARTNER_ATTEMPTS = 3; // Best-scoring partners checked against past dates
+
+// Random bonus added to compatibility scores, so the best fit doesn't always win
+const MATCH_SCORE_JITTER = 2;
+
+// The parts of a profile matching looks at (snapshotted on queue entries)
+type MatchingProfile = Pick<
+  Doc<"queueEntries">,
+  | "genderIdentity"
+  | "interestedIn"
+  | "age"
+  | "minAgePreference"
+  | "maxAgePreference"
+  | "location"
+  | "maxDistanceKm"
+>;
+
+// Default time before two people who already had a speed date can meet again
+const DEFAULT_REMATCH_EXCLUSION_HOURS = 7 * 24; // 1 week
+
+/**
+ * Rematch exclusion window, configurable with the REMATCH_EXCLUSION_HOURS env variable
+ */
+function getRematchExclusionMs() {
+  const hours = Number(process.env.REMATCH_EXCLUSION_HOURS);
+  const exclusionHours = Number.isFinite(hours) && hours >= 0
+    ? hours
+    : DEFAULT_REMATCH_EXCLUSION_HOURS;
+  return exclusionHours * 60 * 60 * 1000;
+}
+
+/**
+ * Check if two users should not be paired again
+ * Matched and unmatched pairs are excluded permanently, other pairs for the rematch exclusion window
+ */
+async function haveMetBefore(ctx: QueryCtx, userId: Id<"users">, otherUserId: Id<"users">) {
+  const since = Date.now() - getRematchExclusionMs();
+
+  // Sessions and matches store the pair in either order
+  for (const [user1Id, user2Id] of [[userId, otherUserId], [otherUserId, userId]]) {
+    const match = await ctx.db
+      .query("matches")
+      .withIndex("by_users", (q) => q.eq("user1Id", user1Id).eq("user2Id", user2Id))
+      .first();
+    if (match) return true;
+
+    const unmatch = await ctx.db
+      .query("unmatches")
+      .withIndex("by_users", (q) => q.eq("user1Id", user1Id).eq("user2Id", user2Id))
+      .first();
+    if (unmatch) return true;
+
+    const recentSession = await ctx.db
+      .query("chatSessions")
+      .withIndex("by_users", (q) => q.eq("user1Id", user1Id).eq("user2Id", user2Id))
+      .filter((q) => q.gte(q.field("startedAt"), since))
+      .first();
+    if (recentSession) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Check if the user is interested in the other user's gender identity
+ */
+function acceptsGender(user: MatchingProfile, other: MatchingProfile) {
+  // No preference set means open to everyone
+  if (!user.interestedIn || user.interestedIn.length === 0) return true;
+
+  return !!other.genderIdentity && user.interestedIn.includes(other.genderIdentity);
+}
+
+/**
+ * Check if two users accept each other's gender, age and distance preferences
+ * Every preference must hold in both directions
+ */
+function isCompatible(user: MatchingProfile, other: MatchingProfile) {
+  return (
+    acceptsGender(user, other) &&
+    acceptsGender(other, user) &&
+    acceptsAge(user, other) &&
+    acceptsAge(other, user) &&
+    acceptsDistance(user, other) &&
+    acceptsDistance(other, user)
+  );
+}
+
+/**
+ * Check if a queued user's dashboard has checked in recently
+ */
+function hasFreshHeartbeat(entry: Doc<"queueEntries">, now: number) {
+  return now - entry.heartbeatAt < QUEUE_HEARTBEAT_TIMEOUT_MS;
+}
+
+/**
+ * Get the user's current search, if they are in the queue
+ */
+async function getWaitingEntry(ctx: QueryCtx, userId: Id<"users">) {
+  return await ctx.db
+    .query("queueEntries")
+    .withIndex("by_user_and_status", (q) => q.eq("userId", userId).eq("status", "waiting"))
+    .first();
+}
+
+/**
+ * Take a user out of the queue (no-op if they aren't searching)
+ */
+export async function leaveQueue(ctx: MutationCtx, userId: Id<"users">) {
+  const entry = await getWaitingEntry(ctx, userId);
+  if (entry) {
+    await ctx.db.patch(entry._id, { status: "left", leftAt: Date.now() });
+  }
+}
+
+/**
+ * Get the user's active chat session, if any
+ */
+async function getActiveSession(ctx: QueryCtx, userId: Id<"users">) {
+  const activeAsUser1 = await ctx.db
+    .query("chatSessions")
+    .withIndex("by_user1", (q) => q.eq("user1Id", userId))
+    .filter((q) => q.eq(q.field("status"), "active"))
+    .first();
+  if (activeAsUser1) return activeAsUser1;
+
+  return await ctx.db
+    .query("chatSessions")
+    .withIndex("by_user2", (q) => q.eq("user2Id", userId))
+    .filter((q) => q.eq(q.field("status"), "active"))
+    .first();
+}
+
+/**
+ * Check if a user is in an active chat session
+ */
+async function hasActiveSession(ctx: QueryCtx, userId: Id<"users">) {
+  return (await getActiveSession(ctx, userId)) !== null;
+}
+
+/**
+ * Check if the other user's age is inside this user's preferred range
+ * Users without an age or without a range are not filtered out
+ */
+function acceptsAge(user: MatchingProfile, other: MatchingProfile) {
+  if (other.age === undefined) return true;
+  if (user.minAgePreference !== undefined && other.age < user.minAgePreference) return false;
+  if (user.maxAgePreference !== undefined && other.age > user.maxAgePreference) return false;
+  return true;
+}
+
+/**
+ * Check if the other user is within this user's maximum distance
+ * Users without a location or without a limit are not filtered out
+ */
+function acceptsDistance(user: MatchingProfile, other: MatchingProfile) {
+  if (user.maxDistanceKm === undefined || !user.location || !other.location) return true;
+  return distanceKm(user.location, other.location) <= user.maxDistanceKm;
+}
+
+/**
+ * Great-circle distance between two coordinates (haversine)
+ */
+function distanceKm(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+) {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const earthRadiusKm = 6371;
+
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * earthRadiusKm * Math.asin(Math.sqrt(h));
+}
 
 /**
  * Join the dating queue
- * Finds a match if someone is waiting, or adds user to queue
+ * The matcher cron pairs waiting users, and queue.status reports the match
  */
 export const join = mutation({
   args: {},
@@ -27,7 +227,6 @@ export const join = mutation({
         name: identity.name || identity.givenName || identity.nickname || "User",
         image: identity.pictureUrl,
         emailVerified: identity.emailVerified || false,
-        isInQueue: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -37,117 +236,248 @@ export const join = mutation({
       user = newUser;
     }
 
-    // Check if user already has an active session - prevent accidental rejoining
-    const existingActiveSession = await ctx.db
-      .query("chatSessions")
-      .filter((q) =>
-        q.and(
-          q.or(
-            q.eq(q.field("user1Id"), user._id),
-            q.eq(q.field("user2Id"), user._id)
-          ),
-          q.eq(q.field("status"), "active")
-        )
-      )
-      .first();
+    // Suspended and banned users can't join
+    assertAccountActive(user);
 
-    if (existingActiveSession) {
+    // Check if user already has an active session - prevent accidental rejoining
+    if (await hasActiveSession(ctx, user._id)) {
       throw new Error(
         "You are already in an active chat session. Please leave your current chat before finding a new match."
       );
     }
 
-    // Look for someone in the queue (excluding current user)
-    const waitingUsers = await ctx.db
-      .query("users")
-      .withIndex("by_queue", (q) => q.eq("isInQueue", true))
-      .collect();
-
-    // Filter users based on gender preferences (if set)
-    const compatibleUsers = waitingUsers.filter((u) => {
-      if (u._id === user._id) return false;
+    const now = Date.now();
 
-      // If either user hasn't set preferences, allow match
-      if (!user.genderPreference || !u.genderPreference) return true;
-
-      // Check if current user's preference matches other user's gender
-      const userWantsOther =
-        user.genderPreference === "both" ||
-        (user.gender && user.genderPreference === u.gender);
+    // Joining twice (e.g. from two tabs) keeps the original place in line
+    const existingEntry = await getWaitingEntry(ctx, user._id);
+    if (existingEntry) {
+      await ctx.db.patch(existingEntry._id, { heartbeatAt: now });
+    } else {
+      await ctx.db.insert("queueEntries", {
+        userId: user._id,
+        status: "waiting",
+        joinedAt: now,
+        heartbeatAt: now,
+        genderIdentity: user.genderIdentity,
+        interestedIn: user.interestedIn,
+        age: user.age,
+        minAgePreference: user.minAgePreference,
+        maxAgePreference: user.maxAgePreference,
+        location: user.location,
+        maxDistanceKm: user.maxDistanceKm,
+        interests: user.interests,
+        questionnaireAnswers: user.questionnaireAnswers,
+      });
+    }
 
-      // Check if other user's preference matches current user's gender
-      const otherWantsUser =
-        u.genderPreference === "both" ||
-        (u.gender && u.genderPreference === user.gender);
+    return {
+      matched: false,
+      chatSessionId: null,
+    };
+  },
+});
 
-      return userWantsOther && otherWantsUser;
-    });
+/**
+ * Pair waiting users into speed dates, longest waits first
+ * Each user gets the most compatible partner available, with some randomness.
+ * Compatibility and scoring happen in memory; only the few best candidates are
+ * checked against past dates, and each run starts at most MAX_PAIRS_PER_RUN dates.
+ * Runs every few seconds from crons.ts and is the only writer of matched entries.
+ * Convex runs each mutation as a serializable transaction, so an entry can
+ * never end up in two sessions even if runs overlap.
+ */
+export const runMatcher = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    const waitingEntries = await ctx.db
+      .query("queueEntries")
+      .withIndex("by_status_and_joined", (q) => q.eq("status", "waiting"))
+      .order("asc")
+      .take(MATCH_BATCH_SIZE);
+
+    // Entries whose dashboard went away are left for the sweeper
+    const candidates = waitingEntries.filter((entry) => hasFreshHeartbeat(entry, now));
+    // Entries already paired this run, or found to be in another chat
+    const takenEntryIds = new Set<Id<"queueEntries">>();
+    let pairCount = 0;
+
+    // Loaded once per run
+    const { speedDatingMinutes } = await getSettings(ctx);
+    const icebreakerIds = await getActiveIcebreakerIds(ctx);
+
+    // Block lists are loaded at most once per user and run (each covers both directions)
+    const blockedUserIdsByUser = new Map<Id<"users">, Set<Id<"users">>>();
+    const getBlocked = async (userId: Id<"users">) => {
+      let blockedUserIds = blockedUserIdsByUser.get(userId);
+      if (!blockedUserIds) {
+        blockedUserIds = await getBlockedUserIds(ctx, userId);
+        blockedUserIdsByUser.set(userId, blockedUserIds);
+      }
+      return blockedUserIds;
+    };
 
-    // Randomly select from compatible users to ensure fairness
-    const matchedUser = compatibleUsers.length > 0
-      ? compatibleUsers[Math.floor(Math.random() * compatibleUsers.length)]
-      : undefined;
-
-    if (matchedUser) {
-      // CLAIM-FIRST PATTERN: Remove matched user from queue atomically
-      // This prevents other users from matching with the same person
-      await ctx.db.patch(matchedUser._id, { isInQueue: false });
-
-      // VERIFY-SECOND: Double-check that matched user doesn't already have an active session
-      // This handles race conditions where multiple users tried to match simultaneously
-      const matchedUserActiveSession = await ctx.db
-        .query("chatSessions")
-        .filter((q) =>
-          q.and(
-            q.or(
-              q.eq(q.field("user1Id"), matchedUser._id),
-              q.eq(q.field("user2Id"), matchedUser._id)
-            ),
-            q.eq(q.field("status"), "active")
-          )
+    for (const entry of candidates) {
+      if (pairCount >= MAX_PAIRS_PER_RUN) break;
+      if (takenEntryIds.has(entry._id)) continue;
+
+      // Never match users who have blocked each other
+      const blockedUserIds = await getBlocked(entry.userId);
+
+      // Rank compatible partners by score, with some randomness
+      const ranked = candidates
+        .filter(
+          (other) =>
+            other._id !== entry._id &&
+            !takenEntryIds.has(other._id) &&
+            other.userId !== entry.userId &&
+            !blockedUserIds.has(other.userId) &&
+            isCompatible(entry, other)
         )
-        .first();
+        .map((other) => ({
+          other,
+          score: compatibilityScore(entry, other) + Math.random() * MATCH_SCORE_JITTER,
+        }))
+        .sort((a, b) => b.score - a.score);
+
+      if (ranked.length === 0) continue;
+
+      // They may have reconnected with a match since joining
+      if (await hasActiveSession(ctx, entry.userId)) {
+        await ctx.db.patch(entry._id, { status: "left", leftAt: now });
+        takenEntryIds.add(entry._id);
+        continue;
+      }
+
+      let partner: Doc<"queueEntries"> | undefined;
+      for (const { other } of ranked.slice(0, MAX_PARTNER_ATTEMPTS)) {
+        // Never pair people who already had a speed date together
+        if (await haveMetBefore(ctx, entry.userId, other.userId)) continue;
 
-      if (matchedUserActiveSession) {
-        // Matched user already in a session! Put current user in queue to try again
-        await ctx.db.patch(user._id, { isInQueue: true });
+        if (await hasActiveSession(ctx, other.userId)) {
+          await ctx.db.patch(other._id, { status: "left", leftAt: now });
+          takenEntryIds.add(other._id);
+          continue;
+        }
 
-        return {
-          matched: false,
-          chatSessionId: null,
-        };
+        partner = other;
+        break;
       }
 
-      // Safe to create session - matched user is claimed and has no active session
-      await ctx.db.patch(user._id, { isInQueue: false });
+      if (!partner) continue;
 
-      const speedDatingEndsAt = Date.now() + 15 * 60 * 1000; // 15 minutes
+      const speedDatingEndsAt = now + speedDatingMinutes * 60 * 1000;
 
       const sessionId = await ctx.db.insert("chatSessions", {
-        user1Id: user._id,
-        user2Id: matchedUser._id,
+        user1Id: entry.userId,
+        user2Id: partner.userId,
         phase: "speed_dating",
         status: "active",
-        startedAt: Date.now(),
+        startedAt: now,
         speedDatingEndsAt,
+        icebreakerId: pickIcebreaker(icebreakerIds),
       });
 
-      return {
-        matched: true,
-        chatSessionId: sessionId,
-      };
-    } else {
-      // No match found, add to queue
-      await ctx.db.patch(user._id, { isInQueue: true });
+      // Record the match on both entries so the dashboards can react
+      for (const matchedEntry of [entry, partner]) {
+        await ctx.db.patch(matchedEntry._id, {
+          status: "matched",
+          matchedAt: now,
+          chatSessionId: sessionId,
+        });
+        takenEntryIds.add(matchedEntry._id);
+      }
 
-      return {
-        matched: false,
-        chatSessionId: null,
-      };
+      // Move the session to the decision step on the server, even if nobody has the chat open
+      await ctx.scheduler.runAt(
+        speedDatingEndsAt,
+        internal.decisions.expireSpeedDating,
+        { chatSessionId: sessionId }
+      );
+
+      // Either of them may be waiting in a background tab
+      // Anyone watching the dashboard is redirected to the chat live
+      for (const { userId, visibleAt } of [entry, partner]) {
+        if (visibleAt !== undefined && now - visibleAt < QUEUE_PRESENCE_TIMEOUT_MS) continue;
+
+        await sendPush(ctx, userId, {
+          title: "You've got a match!",
+          body: "Your speed date has started. Say hi!",
+          url: `/chat/${sessionId}`,
+          tag: `chat-${sessionId}`,
+        });
+      }
+
+      pairCount++;
+    }
+
+    if (pairCount > 0) {
+      console.log(`[runMatcher] Started ${pairCount} speed dates`);
+    }
+
+    // Refresh the stats shown to everyone still waiting
+    // Positions are exact since the oldest entries are read first, but a full batch
+    // means people beyond it weren't counted
+    const stillWaiting = candidates.filter((entry) => !takenEntryIds.has(entry._id));
+    const estimateWait = await getWaitEstimator(ctx, now);
+    const waitingCountCapped = waitingEntries.length === MATCH_BATCH_SIZE;
+
+    for (const entry of stillWaiting) {
+      const blockedUserIds = await getBlocked(entry.userId);
+      const others = stillWaiting.filter((other) => other.userId !== entry.userId);
+
+      // Only counts are shown, never who is waiting
+      const waitingCount = others.filter(
+        (other) => !blockedUserIds.has(other.userId) && isCompatible(entry, other)
+      ).length;
+
+      // People looking for the same thing who got here first are matched first
+      const lookingFor = [...(entry.interestedIn ?? [])].sort().join();
+      const queuePosition =
+        others.filter(
+          (other) =>
+            other.genderIdentity === entry.genderIdentity &&
+            [...(other.interestedIn ?? [])].sort().join() === lookingFor &&
+            other.joinedAt < entry.joinedAt
+        ).length + 1;
+
+      const estimatedWaitSeconds = estimateWait(queuePosition);
+
+      // Skip unchanged entries so their dashboards don't re-render
+      if (
+        entry.waitingCount !== waitingCount ||
+        entry.waitingCountCapped !== waitingCountCapped ||
+        entry.queuePosition !== queuePosition ||
+        entry.estimatedWaitSeconds !== estimatedWaitSeconds
+      ) {
+        await ctx.db.patch(entry._id, {
+          waitingCount,
+          waitingCountCapped,
+          queuePosition,
+          estimatedWaitSeconds,
+        });
+      }
     }
   },
 });
 
+/**
+ * Build a wait estimate from the speed dates started recently
+ * Every speed date takes roughly one person ahead of you out of line
+ */
+async function getWaitEstimator(ctx: QueryCtx, now: number) {
+  let recentMatchCount = 0;
+  for await (const session of ctx.db.query("chatSessions").order("desc")) {
+    if (session.startedAt < now - MATCH_RATE_WINDOW_MS) break;
+    if (session.speedDatingEndsAt !== undefined) recentMatchCount++;
+  }
+
+  const matchesPerSecond = recentMatchCount / (MATCH_RATE_WINDOW_MS / 1000);
+  return (queuePosition: number) =>
+    recentMatchCount > 0 ? Math.round(queuePosition / matchesPerSecond) : null;
+}
+
 /**
  * Leave the dating queue
  */
@@ -164,14 +494,76 @@ export const leave = mutation({
 
     if (!user) throw new Error("User not found");
 
-    await ctx.db.patch(user._id, { isInQueue: false });
+    await leaveQueue(ctx, user._id);
 
     return { success: true };
   },
 });
 
+/**
+ * Keep the current user in the queue
+ * Called periodically by the dashboard while searching, and whenever it's shown or hidden
+ */
+export const heartbeat = mutation({
+  args: {
+    visible: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    // The sweeper may already have removed them
+    const entry = await getWaitingEntry(ctx, user._id);
+    if (!entry) return { inQueue: false };
+
+    const now = Date.now();
+    await ctx.db.patch(entry._id, {
+      heartbeatAt: now,
+      visibleAt: args.visible ? now : undefined,
+    });
+
+    return { inQueue: true };
+  },
+});
+
+/**
+ * Take users whose heartbeat went stale out of the queue
+ * Runs every minute from crons.ts
+ */
+export const sweepStaleQueue = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    const waitingEntries = await ctx.db
+      .query("queueEntries")
+      .withIndex("by_status_and_joined", (q) => q.eq("status", "waiting"))
+      .collect();
+
+    let removedCount = 0;
+    for (const entry of waitingEntries) {
+      if (!hasFreshHeartbeat(entry, now)) {
+        await ctx.db.patch(entry._id, { status: "left", leftAt: now });
+        removedCount++;
+      }
+    }
+
+    if (removedCount > 0) {
+      console.log(`[sweepStaleQueue] Removed ${removedCount} stale users from the queue`);
+    }
+  },
+});
+
 /**
  * Get queue status (check if matched)
+ * Reads no other users' entries, so heartbeats don't re-run it for everyone
  */
 export const status = query({
   args: {},
@@ -195,18 +587,7 @@ export const status = query({
     }
 
     // Check if user has an active session
-    const activeSession = await ctx.db
-      .query("chatSessions")
-      .filter((q) =>
-        q.and(
-          q.or(
-            q.eq(q.field("user1Id"), user._id),
-            q.eq(q.field("user2Id"), user._id)
-          ),
-          q.eq(q.field("status"), "active")
-        )
-      )
-      .first();
+    const activeSession = await getActiveSession(ctx, user._id);
 
     if (activeSession) {
       return {
@@ -217,11 +598,29 @@ export const status = query({
       };
     }
 
+    const entry = await getWaitingEntry(ctx, user._id);
+
+    if (!entry) {
+      return {
+        userExists: true,
+        inQueue: false,
+        matched: false,
+        chatSessionId: null,
+        lastWarnedAt: user.lastWarnedAt,
+      };
+    }
+
     return {
       userExists: true,
-      inQueue: user.isInQueue,
+      inQueue: true,
       matched: false,
       chatSessionId: null,
+      lastWarnedAt: user.lastWarnedAt,
+      // Refreshed by the matcher, so this query only depends on the user's own entry
+      waitingCount: entry.waitingCount,
+      waitingCountCapped: entry.waitingCountCapped ?? false,
+      queuePosition: entry.queuePosition,
+      estimatedWaitSeconds: entry.estimatedWaitSeconds,
     };
   },
 });
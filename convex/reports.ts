@@ -0,0 +1,96 @@
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+
+// Number of recent messages attached to a report
+const REPORT_EXCERPT_LIMIT = 50;
+
+/**
+ * Report the other participant of a chat session
+ * Attaches the latest messages so moderators can review them after the chat is deleted
+ */
+export const create = mutation({
+  args: {
+    chatSessionId: v.id("chatSessions"),
+    reason: v.union(
+      v.literal("harassment"),
+      v.literal("inappropriate_content"),
+      v.literal("spam"),
+      v.literal("fake_profile"),
+      v.literal("underage"),
+      v.literal("other")
+    ),
+    details: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthenticated");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) throw new Error("User not found");
+
+    const chatSession = await ctx.db.get(args.chatSessionId);
+    if (!chatSession) throw new Error("Chat session not found");
+
+    // Verify user is part of this chat
+    if (chatSession.user1Id !== user._id && chatSession.user2Id !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    const details = args.details?.trim();
+    if (details && details.length > 1000) {
+      throw new Error("Details must be 1000 characters or less");
+    }
+
+    const reportedUserId =
+      chatSession.user1Id === user._id ? chatSession.user2Id : chatSession.user1Id;
+
+    // Snapshot the latest messages people wrote, oldest first
+    const recentMessages = await ctx.db
+      .query("messages")
+      .withIndex("by_chat_and_time", (q) =>
+        q.eq("chatSessionId", args.chatSessionId)
+      )
+      .order("desc")
+      .filter((q) => q.neq(q.field("kind"), "system"))
+      .take(REPORT_EXCERPT_LIMIT);
+
+    // Include earlier versions of edited and unsent messages
+    const messageExcerpts = await Promise.all(
+      recentMessages.reverse().map(async (message) => {
+        const edits = message.editedAt !== undefined || message.deletedAt !== undefined
+          ? await ctx.db
+              .query("messageEdits")
+              .withIndex("by_message", (q) => q.eq("messageId", message._id))
+              .collect()
+          : [];
+
+        return {
+          senderId: message.senderId,
+          content: message.content,
+          createdAt: message.createdAt,
+          previousVersions: edits.length > 0
+            ? edits.map((edit) => edit.previousContent)
+            : undefined,
+          unsent: message.deletedAt !== undefined ? true : undefined,
+        };
+      })
+    );
+
+    const reportId = await ctx.db.insert("reports", {
+      reporterId: user._id,
+      reportedUserId,
+      chatSessionId: args.chatSessionId,
+      reason: args.reason,
+      details: details || undefined,
+      messageExcerpts,
+      status: "open",
+      createdAt: Date.now(),
+    });
+
+    return { reportId };
+  },
+});
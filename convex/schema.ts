@@ -1,5 +1,6 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { genderIdentity } from "./genders";
 
 /**
  * Convex Schema for Dating App
@@ -18,18 +19,89 @@ export default defineSchema({
 
     // Dating app specific fields
     age: v.optional(v.number()),
+    genderIdentity: v.optional(genderIdentity),
+    interestedIn: v.optional(v.array(genderIdentity)), // Identities this user wants to meet
+    // Legacy gender fields, replaced by the two above (see users.migrateGenderFields)
     gender: v.optional(v.union(v.literal("male"), v.literal("female"), v.literal("other"))),
     genderPreference: v.optional(v.union(v.literal("male"), v.literal("female"), v.literal("both"))),
     bio: v.optional(v.string()),
-    photos: v.optional(v.array(v.string())),
-    isInQueue: v.boolean(),
+    photos: v.optional(v.array(v.string())), // Legacy photo URLs (see profile.migrateLegacyPhotos)
+    photoStorageIds: v.optional(v.array(v.id("_storage"))), // Gallery, first one is primary
+    // Legacy queue state, replaced by queueEntries (kept so existing documents validate)
+    isInQueue: v.optional(v.boolean()),
+
+    // Matching preferences (checked both ways in queue.runMatcher)
+    minAgePreference: v.optional(v.number()),
+    maxAgePreference: v.optional(v.number()),
+    // Coarse location, rounded to ~1km before it is stored
+    location: v.optional(v.object({
+      latitude: v.number(),
+      longitude: v.number(),
+    })),
+    maxDistanceKm: v.optional(v.number()),
+
+    // Compatibility scoring (see compatibility.ts)
+    interests: v.optional(v.array(v.string())),
+    questionnaireAnswers: v.optional(v.record(v.string(), v.string())), // Question ID -> option ID
+
+    // Moderation (role is granted manually from the Convex dashboard)
+    role: v.optional(v.union(v.literal("user"), v.literal("admin"))),
+    suspendedUntil: v.optional(v.number()),
+    bannedAt: v.optional(v.number()),
+    warningCount: v.optional(v.number()),
+    lastWarnedAt: v.optional(v.number()),
+
+    // Email opt-outs (missing means opted in)
+    emailPreferences: v.optional(v.object({
+      chatRequests: v.boolean(),
+      dailyDigest: v.boolean(),
+    })),
+    lastDigestSentAt: v.optional(v.number()),
 
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_clerk_id", ["clerkId"])
-    .index("by_email", ["email"])
-    .index("by_queue", ["isInQueue"]),
+    .index("by_email", ["email"]),
+
+  // Queue entries table (one per search, paired by the matcher cron)
+  queueEntries: defineTable({
+    userId: v.id("users"),
+    status: v.union(v.literal("waiting"), v.literal("matched"), v.literal("left")),
+    joinedAt: v.number(),
+    heartbeatAt: v.number(), // Refreshed by the dashboard while searching
+    visibleAt: v.optional(v.number()), // Last heartbeat while the dashboard was on screen
+
+    // Preferences at the time of joining
+    genderIdentity: v.optional(genderIdentity),
+    interestedIn: v.optional(v.array(genderIdentity)),
+    // Legacy gender fields (see users.migrateGenderFields)
+    gender: v.optional(v.union(v.literal("male"), v.literal("female"), v.literal("other"))),
+    genderPreference: v.optional(v.union(v.literal("male"), v.literal("female"), v.literal("both"))),
+    age: v.optional(v.number()),
+    minAgePreference: v.optional(v.number()),
+    maxAgePreference: v.optional(v.number()),
+    location: v.optional(v.object({
+      latitude: v.number(),
+      longitude: v.number(),
+    })),
+    maxDistanceKm: v.optional(v.number()),
+    interests: v.optional(v.array(v.string())),
+    questionnaireAnswers: v.optional(v.record(v.string(), v.string())),
+
+    // Queue stats, refreshed by the matcher so queue.status only reads this entry
+    // Only the oldest entries the matcher reads per run get stats
+    waitingCount: v.optional(v.number()),
+    waitingCountCapped: v.optional(v.boolean()), // More were waiting, so waitingCount is a minimum
+    queuePosition: v.optional(v.number()),
+    estimatedWaitSeconds: v.optional(v.union(v.number(), v.null())),
+
+    matchedAt: v.optional(v.number()),
+    chatSessionId: v.optional(v.id("chatSessions")),
+    leftAt: v.optional(v.number()),
+  })
+    .index("by_user_and_status", ["userId", "status"])
+    .index("by_status_and_joined", ["status", "joinedAt"]),
 
   // Chat sessions table
   chatSessions: defineTable({
@@ -45,6 +117,14 @@ export default defineSchema({
     user1WantsSkip: v.optional(v.boolean()),
     user2WantsSkip: v.optional(v.boolean()),
 
+    // Mutual vote for more speed dating time (flags reset after each extension)
+    user1WantsExtend: v.optional(v.boolean()),
+    user2WantsExtend: v.optional(v.boolean()),
+    extensionCount: v.optional(v.number()),
+
+    // Conversation starter shown until the first message (speed dates only)
+    icebreakerId: v.optional(v.id("icebreakers")),
+
     // Typing indicators
     user1Typing: v.optional(v.boolean()),
     user1LastTyping: v.optional(v.number()),
@@ -52,24 +132,70 @@ export default defineSchema({
     user2LastTyping: v.optional(v.number()),
 
     startedAt: v.number(),
-    speedDatingEndsAt: v.optional(v.number()), // 15 minutes from startedAt
+    // Set once the pair matches; every later session of the match shares it
+    matchId: v.optional(v.id("matches")),
+
+    speedDatingEndsAt: v.optional(v.number()), // Speed date length from settings, plus extensions
+    decisionDeadline: v.optional(v.number()), // Undecided users count as "no" after this
     endedAt: v.optional(v.number()),
   })
     .index("by_user1", ["user1Id"])
     .index("by_user2", ["user2Id"])
     .index("by_status", ["status"])
-    .index("by_users", ["user1Id", "user2Id"]),
+    .index("by_users", ["user1Id", "user2Id"])
+    .index("by_match", ["matchId"]),
+
+  // Photo uploads table (who uploaded each gallery file, so nobody can use another user's)
+  photoUploads: defineTable({
+    storageId: v.id("_storage"),
+    userId: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("by_storage", ["storageId"])
+    .index("by_user", ["userId"]),
 
   // Messages table
   messages: defineTable({
     chatSessionId: v.id("chatSessions"),
     senderId: v.id("users"),
-    content: v.string(),
+    // Links the message into the match's continuous thread
+    matchId: v.optional(v.id("matches")),
+    content: v.string(), // For system messages, a plain-text fallback of the payload
     createdAt: v.number(),
     readAt: v.optional(v.number()),
+
+    // System messages record phase changes in the transcript (missing means "user")
+    // senderId is the user whose action caused the event
+    kind: v.optional(v.union(v.literal("user"), v.literal("system"))),
+    payload: v.optional(v.union(
+      v.object({ type: v.literal("matched") }),
+      v.object({ type: v.literal("skipped_to_reveal") }),
+      v.object({ type: v.literal("reconnected") }),
+      v.object({ type: v.literal("left") })
+    )),
+
+    // Set by messages.edit and messages.unsend (unsent messages keep an empty content)
+    editedAt: v.optional(v.number()),
+    deletedAt: v.optional(v.number()),
   })
     .index("by_chat_session", ["chatSessionId"])
-    .index("by_chat_and_time", ["chatSessionId", "createdAt"]),
+    .index("by_chat_and_time", ["chatSessionId", "createdAt"])
+    .index("by_match_and_time", ["matchId", "createdAt"])
+    // Unread messages of a match thread, without reading the rest of it
+    .index("by_match_sender_and_read", ["matchId", "senderId", "readAt", "createdAt"]),
+
+  // Message edits table (earlier versions of edited and unsent messages, for moderation)
+  messageEdits: defineTable({
+    messageId: v.id("messages"),
+    chatSessionId: v.id("chatSessions"),
+    senderId: v.id("users"),
+    action: v.union(v.literal("edit"), v.literal("unsend")),
+    previousContent: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_message", ["messageId"])
+    .index("by_chat_session", ["chatSessionId"])
+    .index("by_sender", ["senderId"]),
 
   // Matches table (mutual interest)
   matches: defineTable({
@@ -83,17 +209,159 @@ export default defineSchema({
     .index("by_users", ["user1Id", "user2Id"])
     .index("by_chat_session", ["chatSessionId"]),
 
+  // Unmatches table (pairs that unmatched are never paired again in speed dating)
+  unmatches: defineTable({
+    user1Id: v.id("users"),
+    user2Id: v.id("users"),
+    unmatchedAt: v.number(),
+  })
+    .index("by_users", ["user1Id", "user2Id"])
+    .index("by_user2", ["user2Id"]),
+
   // Chat requests table (for reconnecting with matches)
   chatRequests: defineTable({
     fromUserId: v.id("users"),
     toUserId: v.id("users"),
     matchId: v.id("matches"),
-    status: v.union(v.literal("pending"), v.literal("accepted"), v.literal("declined")),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("accepted"),
+      v.literal("declined"),
+      v.literal("cancelled"),
+      v.literal("expired")
+    ),
     createdAt: v.number(),
+    expiresAt: v.optional(v.number()), // Pending requests expire after the request TTL
     respondedAt: v.optional(v.number()),
   })
     .index("by_from_user", ["fromUserId"])
     .index("by_to_user", ["toUserId"])
     .index("by_status", ["status"])
-    .index("by_to_user_and_status", ["toUserId", "status"]),
+    .index("by_to_user_and_status", ["toUserId", "status"])
+    .index("by_match_and_status", ["matchId", "status"]),
+
+  // Unmatch notices (tell the other person a match was removed)
+  unmatchNotices: defineTable({
+    userId: v.id("users"), // The person who was unmatched
+    unmatchedById: v.id("users"),
+    createdAt: v.number(),
+    dismissed: v.boolean(),
+  })
+    .index("by_user_and_dismissed", ["userId", "dismissed"]),
+
+  // Mailbox table (captures emails when MAIL_TRANSPORT is "mailbox", for development)
+  mailbox: defineTable({
+    to: v.string(),
+    subject: v.string(),
+    text: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_to", ["to"]),
+
+  // Push subscriptions table (one per browser a user enabled push in)
+  pushSubscriptions: defineTable({
+    userId: v.id("users"),
+    endpoint: v.string(),
+    p256dh: v.string(),
+    auth: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_endpoint", ["endpoint"]),
+
+  // Presence table (the chat each user has on screen, so pushes can be skipped)
+  presence: defineTable({
+    userId: v.id("users"),
+    chatSessionId: v.id("chatSessions"),
+    lastSeenAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
+
+  // Notifications table (in-app notification center)
+  notifications: defineTable({
+    userId: v.id("users"), // Who gets notified
+    type: v.union(
+      v.literal("new_match"),
+      v.literal("request_accepted"),
+      v.literal("request_declined"),
+      v.literal("new_message")
+    ),
+    actorId: v.id("users"), // Who caused it
+    matchId: v.optional(v.id("matches")),
+    chatSessionId: v.optional(v.id("chatSessions")),
+    preview: v.optional(v.string()), // Start of the message for new_message
+    messageId: v.optional(v.id("messages")), // The previewed message, so edits can update it
+    read: v.boolean(),
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_and_read", ["userId", "read"])
+    .index("by_user_and_match", ["userId", "matchId"]),
+
+  // Blocks table (blocked pairs can never chat, match or send requests)
+  blocks: defineTable({
+    blockerId: v.id("users"),
+    blockedId: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("by_blocker", ["blockerId"])
+    .index("by_blocked", ["blockedId"])
+    .index("by_pair", ["blockerId", "blockedId"]),
+
+  // Reports table (user reports for trust & safety review)
+  reports: defineTable({
+    reporterId: v.id("users"),
+    reportedUserId: v.id("users"),
+    chatSessionId: v.optional(v.id("chatSessions")),
+    reason: v.union(
+      v.literal("harassment"),
+      v.literal("inappropriate_content"),
+      v.literal("spam"),
+      v.literal("fake_profile"),
+      v.literal("underage"),
+      v.literal("other")
+    ),
+    details: v.optional(v.string()),
+    // Snapshot of the chat, since messages may be deleted for privacy later
+    messageExcerpts: v.array(v.object({
+      senderId: v.id("users"),
+      content: v.string(),
+      createdAt: v.number(),
+      previousVersions: v.optional(v.array(v.string())), // Oldest first, from messageEdits
+      unsent: v.optional(v.boolean()),
+    })),
+    status: v.union(v.literal("open"), v.literal("resolved")),
+    resolution: v.optional(v.union(
+      v.literal("dismissed"),
+      v.literal("warned"),
+      v.literal("suspended"),
+      v.literal("banned")
+    )),
+    resolvedBy: v.optional(v.id("users")),
+    resolvedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_status", ["status"])
+    .index("by_reported_user", ["reportedUserId"]),
+
+  // Icebreakers table (prompt library, one is drawn per speed date)
+  icebreakers: defineTable({
+    prompt: v.string(),
+    active: v.boolean(), // Retired prompts stay for sessions that already use them
+    createdAt: v.number(),
+  })
+    .index("by_active", ["active"]),
+
+  // Settings table (single document of session rules, edited by admins)
+  settings: defineTable({
+    speedDatingMinutes: v.number(),
+    maxMessageLength: v.number(),
+    rateLimitMessages: v.number(),
+    rateLimitWindowSeconds: v.number(),
+    typingTimeoutSeconds: v.number(),
+    editWindowMinutes: v.optional(v.number()), // Added later, missing means the default
+    maxExtensions: v.optional(v.number()), // Added later, missing means the default
+    updatedBy: v.id("users"),
+    updatedAt: v.number(),
+  }),
 });
@@ -0,0 +1,25 @@
+// Session rule defaults and limits shared by convex/settings.ts and the admin settings page
+
+// Session rules used until an admin saves their own
+export const DEFAULT_SETTINGS = {
+  speedDatingMinutes: 15,
+  maxMessageLength: 2000,
+  rateLimitMessages: 10, // Messages allowed per rate limit window
+  rateLimitWindowSeconds: 10,
+  typingTimeoutSeconds: 5, // Typing indicators older than this are hidden
+  editWindowMinutes: 15, // How long senders can edit or unsend a message
+  maxExtensions: 2, // How often a speed date can be extended by both voting "+5 min"
+};
+
+export type SessionSettings = typeof DEFAULT_SETTINGS;
+
+// Allowed range for each setting (whole numbers only)
+export const SETTING_LIMITS: Record<keyof SessionSettings, { min: number; max: number; label: string }> = {
+  speedDatingMinutes: { min: 1, max: 60, label: "Speed date length" },
+  maxMessageLength: { min: 1, max: 10000, label: "Message length" },
+  rateLimitMessages: { min: 1, max: 100, label: "Messages per window" },
+  rateLimitWindowSeconds: { min: 1, max: 600, label: "Rate limit window" },
+  typingTimeoutSeconds: { min: 1, max: 60, label: "Typing timeout" },
+  editWindowMinutes: { min: 1, max: 1440, label: "Edit window" },
+  maxExtensions: { min: 0, max: 10, label: "Extensions per speed date" },
+};
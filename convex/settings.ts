@@ -0,0 +1,73 @@
+import { v } from "convex/values";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { requireAdmin } from "./moderation";
+import { DEFAULT_SETTINGS, SETTING_LIMITS, SessionSettings } from "./sessionRules";
+
+/**
+ * Get the active session rules, falling back to the defaults
+ */
+export async function getSettings(ctx: QueryCtx): Promise<SessionSettings> {
+  const settings = await ctx.db.query("settings").first();
+  if (!settings) return DEFAULT_SETTINGS;
+
+  return {
+    speedDatingMinutes: settings.speedDatingMinutes,
+    maxMessageLength: settings.maxMessageLength,
+    rateLimitMessages: settings.rateLimitMessages,
+    rateLimitWindowSeconds: settings.rateLimitWindowSeconds,
+    typingTimeoutSeconds: settings.typingTimeoutSeconds,
+    editWindowMinutes: settings.editWindowMinutes ?? DEFAULT_SETTINGS.editWindowMinutes,
+    maxExtensions: settings.maxExtensions ?? DEFAULT_SETTINGS.maxExtensions,
+  };
+}
+
+/**
+ * Get the active session rules (public, the chat UI and landing page read them)
+ */
+export const get = query({
+  args: {},
+  handler: async (ctx) => {
+    return await getSettings(ctx);
+  },
+});
+
+/**
+ * Update the session rules (admin only)
+ * Running speed dates keep their end time, new ones use the new length
+ */
+export const update = mutation({
+  args: {
+    speedDatingMinutes: v.number(),
+    maxMessageLength: v.number(),
+    rateLimitMessages: v.number(),
+    rateLimitWindowSeconds: v.number(),
+    typingTimeoutSeconds: v.number(),
+    editWindowMinutes: v.number(),
+    maxExtensions: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
+    for (const [key, limits] of Object.entries(SETTING_LIMITS)) {
+      const value = args[key as keyof SessionSettings];
+      if (!Number.isInteger(value) || value < limits.min || value > limits.max) {
+        throw new Error(`${limits.label} must be between ${limits.min} and ${limits.max}`);
+      }
+    }
+
+    const updates = {
+      ...args,
+      updatedBy: admin._id,
+      updatedAt: Date.now(),
+    };
+
+    const existing = await ctx.db.query("settings").first();
+    if (existing) {
+      await ctx.db.patch(existing._id, updates);
+    } else {
+      await ctx.db.insert("settings", updates);
+    }
+
+    return { success: true };
+  },
+});
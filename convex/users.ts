@@ -1,6 +1,7 @@
 import { v } from "convex/values";
 import { mutation, query, internalMutation } from "./_generated/server";
 import { Doc, Id } from "./_generated/dataModel";
+import { fromLegacyGender, fromLegacyGenderPreference } from "./genders";
 
 /**
  * Get current user's profile
@@ -52,7 +53,6 @@ export const getOrCreateCurrentUser = mutation({
         name: username || givenName || fullName || nickname || "User",
         image: identity.pictureUrl,
         emailVerified: identity.emailVerified || false,
-        isInQueue: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -101,7 +101,6 @@ export const upsertFromClerk = internalMutation({
         name: args.name,
         image: args.imageUrl,
         emailVerified: true, // Clerk handles verification
-        isInQueue: false,
         createdAt: now,
         updatedAt: now,
       });
@@ -143,6 +142,15 @@ export const deleteFromClerk = internalMutation({
     }
     console.log(`[deleteFromClerk] Deleted ${messages.length} messages`);
 
+    // Along with their edit history
+    const messageEdits = await ctx.db
+      .query("messageEdits")
+      .withIndex("by_sender", (q) => q.eq("senderId", user._id))
+      .collect();
+    for (const messageEdit of messageEdits) {
+      await ctx.db.delete(messageEdit._id);
+    }
+
     // 2. Delete all matches involving this user
     const matchesAsUser1 = await ctx.db
       .query("matches")
@@ -158,6 +166,21 @@ export const deleteFromClerk = internalMutation({
     }
     console.log(`[deleteFromClerk] Deleted ${allMatches.length} matches`);
 
+    // Along with the record of past unmatches
+    const unmatches = [
+      ...(await ctx.db
+        .query("unmatches")
+        .withIndex("by_users", (q) => q.eq("user1Id", user._id))
+        .collect()),
+      ...(await ctx.db
+        .query("unmatches")
+        .withIndex("by_user2", (q) => q.eq("user2Id", user._id))
+        .collect()),
+    ];
+    for (const unmatch of unmatches) {
+      await ctx.db.delete(unmatch._id);
+    }
+
     // 3. Delete all chat sessions involving this user
     const sessionsAsUser1 = await ctx.db
       .query("chatSessions")
@@ -173,7 +196,61 @@ export const deleteFromClerk = internalMutation({
     }
     console.log(`[deleteFromClerk] Deleted ${allSessions.length} chat sessions`);
 
-    // 4. Finally, delete the user
+    // 4. Delete the user's notifications
+    const notifications = await ctx.db
+      .query("notifications")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    for (const notification of notifications) {
+      await ctx.db.delete(notification._id);
+    }
+    console.log(`[deleteFromClerk] Deleted ${notifications.length} notifications`);
+
+    // 5. Delete the user's queue entries
+    const queueEntries = await ctx.db
+      .query("queueEntries")
+      .withIndex("by_user_and_status", (q) => q.eq("userId", user._id))
+      .collect();
+    for (const entry of queueEntries) {
+      await ctx.db.delete(entry._id);
+    }
+    console.log(`[deleteFromClerk] Deleted ${queueEntries.length} queue entries`);
+
+    // 6. Delete the user's push subscriptions
+    const pushSubscriptions = await ctx.db
+      .query("pushSubscriptions")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    for (const subscription of pushSubscriptions) {
+      await ctx.db.delete(subscription._id);
+    }
+    console.log(`[deleteFromClerk] Deleted ${pushSubscriptions.length} push subscriptions`);
+
+    const presence = await ctx.db
+      .query("presence")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .unique();
+    if (presence) await ctx.db.delete(presence._id);
+
+    // 7. Delete the user's photo files
+    for (const storageId of user.photoStorageIds ?? []) {
+      await ctx.storage.delete(storageId);
+    }
+    console.log(`[deleteFromClerk] Deleted ${user.photoStorageIds?.length ?? 0} photos`);
+
+    // Upload records, including uploads that never made it into the gallery
+    const photoUploads = await ctx.db
+      .query("photoUploads")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    for (const upload of photoUploads) {
+      if (!user.photoStorageIds?.includes(upload.storageId)) {
+        await ctx.storage.delete(upload.storageId);
+      }
+      await ctx.db.delete(upload._id);
+    }
+
+    // 8. Finally, delete the user
     await ctx.db.delete(user._id);
 
     console.log(`[deleteFromClerk] ✅ Successfully deleted user ${args.clerkId} and all related data from Convex`);
@@ -181,32 +258,46 @@ export const deleteFromClerk = internalMutation({
 });
 
 /**
- * Update user profile
+ * One-off migration from gender/genderPreference to genderIdentity/interestedIn
+ * Run from the Convex dashboard after deploying the new gender fields
  */
-export const updateProfile = mutation({
-  args: {
-    age: v.optional(v.number()),
-    gender: v.optional(v.union(v.literal("male"), v.literal("female"), v.literal("other"))),
-    genderPreference: v.optional(v.union(v.literal("male"), v.literal("female"), v.literal("both"))),
-    bio: v.optional(v.string()),
-    photos: v.optional(v.array(v.string())),
-  },
-  handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) throw new Error("Unauthenticated");
+export const migrateGenderFields = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    let migratedUsers = 0;
+    for (const user of await ctx.db.query("users").collect()) {
+      if (user.gender === undefined && user.genderPreference === undefined) continue;
 
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
-      .unique();
+      await ctx.db.patch(user._id, {
+        genderIdentity: user.genderIdentity ?? (user.gender && fromLegacyGender(user.gender)),
+        interestedIn:
+          user.interestedIn ??
+          (user.genderPreference && fromLegacyGenderPreference(user.genderPreference)),
+        gender: undefined,
+        genderPreference: undefined,
+      });
+      migratedUsers++;
+    }
 
-    if (!user) throw new Error("User not found");
+    // Queue entries keep a snapshot of the same fields
+    let migratedEntries = 0;
+    for (const entry of await ctx.db.query("queueEntries").collect()) {
+      if (entry.gender === undefined && entry.genderPreference === undefined) continue;
 
-    await ctx.db.patch(user._id, {
-      ...args,
-      updatedAt: Date.now(),
-    });
+      await ctx.db.patch(entry._id, {
+        genderIdentity: entry.genderIdentity ?? (entry.gender && fromLegacyGender(entry.gender)),
+        interestedIn:
+          entry.interestedIn ??
+          (entry.genderPreference && fromLegacyGenderPreference(entry.genderPreference)),
+        gender: undefined,
+        genderPreference: undefined,
+      });
+      migratedEntries++;
+    }
 
-    return { success: true };
+    console.log(
+      `[migrateGenderFields] Migrated ${migratedUsers} users and ${migratedEntries} queue entries`
+    );
+    return { migratedUsers, migratedEntries };
   },
 });
@@ -0,0 +1,36 @@
+// Service worker for web push notifications
+
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {};
+
+  // Every push must show a notification (userVisibleOnly), so a busy chat
+  // reuses one through its tag instead of stacking up
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'New notification', {
+      body: data.body,
+      tag: data.tag || data.url || 'notification',
+      icon: '/android-chrome-192x192.png',
+      data: { url: data.url || '/dashboard' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url || '/dashboard';
+
+  event.waitUntil(
+    (async () => {
+      // Reuse an open tab if there is one
+      const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+      const existing = windows[0];
+      if (existing) {
+        await existing.focus();
+        await existing.navigate(url);
+        return;
+      }
+
+      await self.clients.openWindow(url);
+    })()
+  );
+});
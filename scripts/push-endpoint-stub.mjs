@@ -0,0 +1,41 @@
+// Local stand-in for a browser push service, for testing push delivery without a browser
+//
+// Usage: node scripts/push-endpoint-stub.mjs [port]
+// Then register the printed subscription for a user:
+//   npx convex run push:addTestSubscription '{"userId": "...", ...}'
+// Needs a Convex backend that can reach localhost (npx convex dev --local)
+
+import { createServer } from 'node:http'
+import { createECDH, randomBytes } from 'node:crypto'
+
+const port = Number(process.argv[2] ?? 4400)
+
+// Real-looking client keys so web-push can encrypt payloads for this endpoint
+const ecdh = createECDH('prime256v1')
+ecdh.generateKeys()
+
+const subscription = {
+  endpoint: `http://localhost:${port}/push/${randomBytes(8).toString('hex')}`,
+  p256dh: ecdh.getPublicKey('base64url'),
+  auth: randomBytes(16).toString('base64url'),
+}
+
+createServer((req, res) => {
+  const chunks = []
+  req.on('data', (chunk) => chunks.push(chunk))
+  req.on('end', () => {
+    const body = Buffer.concat(chunks)
+    console.log(`${new Date().toISOString()} ${req.method} ${req.url}`)
+    console.log(`  authorization: ${req.headers.authorization ?? '(missing)'}`)
+    console.log(`  ttl: ${req.headers.ttl} encoding: ${req.headers['content-encoding']}`)
+    console.log(`  encrypted payload: ${body.length} bytes`)
+
+    // Push services answer 201 Created on success
+    res.writeHead(req.url === new URL(subscription.endpoint).pathname ? 201 : 404)
+    res.end()
+  })
+}).listen(port, () => {
+  console.log(`Push endpoint stub listening on http://localhost:${port}`)
+  console.log('Subscription:')
+  console.log(JSON.stringify(subscription))
+})
@@ -0,0 +1,136 @@
+import { Button } from '@/components/ui/button';
+import { useMutation } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+import { useState } from 'react';
+import { Flag, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+type ReportReason =
+  | 'harassment'
+  | 'inappropriate_content'
+  | 'spam'
+  | 'fake_profile'
+  | 'underage'
+  | 'other';
+
+const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: 'harassment', label: 'Harassment' },
+  { value: 'inappropriate_content', label: 'Inappropriate content' },
+  { value: 'spam', label: 'Spam or scam' },
+  { value: 'fake_profile', label: 'Fake profile' },
+  { value: 'underage', label: 'Underage' },
+  { value: 'other', label: 'Something else' },
+];
+
+interface ReportDialogProps {
+  chatSessionId: Id<'chatSessions'>;
+  onClose: () => void;
+  // Called after the report (and optional block) went through
+  onReported?: (blocked: boolean) => void;
+}
+
+export function ReportDialog({ chatSessionId, onClose, onReported }: ReportDialogProps) {
+  const createReport = useMutation(api.reports.create);
+  const blockUser = useMutation(api.blocks.block);
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [alsoBlock, setAlsoBlock] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+
+    try {
+      setIsSubmitting(true);
+      await createReport({
+        chatSessionId,
+        reason,
+        details: details.trim() || undefined,
+      });
+
+      if (alsoBlock) {
+        await blockUser({ chatSessionId });
+      }
+
+      toast.success('Thanks, our team will review your report');
+      onReported?.(alsoBlock);
+      onClose();
+    } catch (error: any) {
+      console.error('Error reporting user:', error);
+      toast.error(error?.message || 'Failed to send report');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white border-4 border-black shadow-3d-lg p-8 max-w-md w-full mx-4">
+        <h2 className="text-3xl font-bold mb-2">Report User</h2>
+        <p className="text-muted-foreground mb-6">
+          What's wrong? Your report is anonymous.
+        </p>
+
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          {REPORT_REASONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setReason(option.value)}
+              className={`py-3 px-3 border-2 border-black text-sm font-bold transition-all ${
+                reason === option.value
+                  ? 'bg-black text-white'
+                  : 'bg-white text-black hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <textarea
+          placeholder="Add details (optional)"
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          maxLength={1000}
+          rows={3}
+          className="w-full px-4 py-3 border-2 border-black focus:outline-none focus:ring-4 focus:ring-black/20 resize-none mb-4"
+        />
+
+        <label className="flex items-center gap-2 mb-6 font-bold">
+          <input
+            type="checkbox"
+            checked={alsoBlock}
+            onChange={(e) => setAlsoBlock(e.target.checked)}
+            className="h-4 w-4 accent-black"
+          />
+          Also block this person
+        </label>
+
+        <div className="flex gap-4">
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="flex-1"
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            className="flex-1 gap-2"
+            disabled={!reason || isSubmitting}
+          >
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Flag className="h-4 w-4" />
+            )}
+            Report
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
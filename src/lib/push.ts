@@ -0,0 +1,84 @@
+// Browser side of web push: service worker registration and subscriptions
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined
+
+export interface PushSubscriptionKeys {
+  endpoint: string
+  p256dh: string
+  auth: string
+}
+
+/**
+ * Check if this browser can receive push notifications
+ */
+export function isPushSupported() {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    !!VAPID_PUBLIC_KEY
+  )
+}
+
+/**
+ * Decode the base64url VAPID key into the format PushManager expects
+ */
+function urlBase64ToUint8Array(base64String: string) {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4)
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/')
+  const raw = window.atob(base64)
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0))
+}
+
+/**
+ * Get this browser's current push subscription, if any
+ */
+export async function getPushSubscription() {
+  if (!isPushSupported()) return null
+  const registration = await navigator.serviceWorker.getRegistration()
+  return (await registration?.pushManager.getSubscription()) ?? null
+}
+
+/**
+ * Ask for permission and subscribe this browser
+ * Returns the keys the server needs to deliver notifications
+ */
+export async function subscribeToPush(): Promise<PushSubscriptionKeys> {
+  if (!isPushSupported()) {
+    throw new Error('Push notifications are not supported in this browser')
+  }
+
+  const permission = await Notification.requestPermission()
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site')
+  }
+
+  const registration = await navigator.serviceWorker.register('/sw.js')
+  await navigator.serviceWorker.ready
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+    }))
+
+  const { endpoint, keys } = subscription.toJSON()
+  if (!endpoint || !keys?.p256dh || !keys?.auth) {
+    throw new Error('Failed to subscribe to push notifications')
+  }
+
+  return { endpoint, p256dh: keys.p256dh, auth: keys.auth }
+}
+
+/**
+ * Unsubscribe this browser
+ * Returns the endpoint that was removed so the server can forget it
+ */
+export async function unsubscribeFromPush() {
+  const subscription = await getPushSubscription()
+  if (!subscription) return null
+
+  await subscription.unsubscribe()
+  return subscription.endpoint
+}
@@ -4,3 +4,13 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Format the time until a timestamp, e.g. "3h 20m" or "45m"
+ */
+export function formatTimeLeft(timestamp: number) {
+  const minutes = Math.max(1, Math.ceil((timestamp - Date.now()) / 60000))
+  const hours = Math.floor(minutes / 60)
+  if (hours === 0) return `${minutes}m`
+  return minutes % 60 === 0 ? `${hours}h` : `${hours}h ${minutes % 60}m`
+}
@@ -0,0 +1,264 @@
+import { createFileRoute, useNavigate, Link } from '@tanstack/react-router';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useUser } from '@clerk/tanstack-react-start';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { Id } from '../../../convex/_generated/dataModel';
+import { useState } from 'react';
+import { Loader2, ArrowLeft, User, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { toast } from 'sonner';
+
+export const Route = createFileRoute('/admin/reports')({
+  component: ModerationPage,
+});
+
+const REASON_LABELS: Record<string, string> = {
+  harassment: 'Harassment',
+  inappropriate_content: 'Inappropriate content',
+  spam: 'Spam or scam',
+  fake_profile: 'Fake profile',
+  underage: 'Underage',
+  other: 'Other',
+};
+
+function ModerationPage() {
+  const navigate = useNavigate();
+  const { isSignedIn, isLoaded } = useUser();
+  const currentUser = useQuery(api.users.getCurrentUser);
+  const isAdmin = currentUser?.role === 'admin';
+
+  // Only subscribe to reports once we know the user is an admin
+  const reports = useQuery(api.moderation.listOpenReports, isAdmin ? {} : 'skip');
+  const resolveReport = useMutation(api.moderation.resolveReport);
+  const [suspendDays, setSuspendDays] = useState<Record<string, string>>({});
+
+  // Redirect to login if not authenticated
+  if (isLoaded && !isSignedIn) {
+    navigate({ to: '/login' });
+    return null;
+  }
+
+  // Loading state
+  if (!isLoaded || currentUser === undefined || (isAdmin && reports === undefined)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+          <p className="text-muted-foreground">Loading reports...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAdmin || !reports) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="text-center space-y-6 max-w-md">
+          <ShieldAlert className="h-16 w-16 mx-auto text-muted-foreground" />
+          <h2 className="text-2xl font-bold">Admins Only</h2>
+          <p className="text-muted-foreground">
+            You don't have permission to view this page.
+          </p>
+          <Button size="lg" onClick={() => navigate({ to: '/dashboard' })}>
+            Back to Dashboard
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const handleResolve = async (
+    reportId: Id<"reports">,
+    action: 'dismiss' | 'warn' | 'suspend' | 'ban'
+  ) => {
+    if (action === 'ban' && !window.confirm('Ban this user permanently?')) {
+      return;
+    }
+
+    try {
+      await resolveReport({
+        reportId,
+        action,
+        suspendDays: action === 'suspend' ? parseInt(suspendDays[reportId] || '7') : undefined,
+      });
+      toast.success('Report resolved');
+    } catch (error: any) {
+      console.error('Error resolving report:', error);
+      toast.error(error?.message || 'Failed to resolve report');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <div className="border-b-2 border-black px-6 py-4 bg-white">
+        <div className="max-w-4xl mx-auto flex items-center gap-4">
+          <Link to="/dashboard">
+            <Button variant="outline" size="sm" className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold">Open Reports</h1>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-4xl mx-auto px-6 py-8">
+        {reports.length === 0 ? (
+          <div className="text-center py-16">
+            <ShieldCheck className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+            <h2 className="text-2xl font-bold mb-2">All clear</h2>
+            <p className="text-muted-foreground">There are no open reports.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {reports.map((report) => (
+              <div
+                key={report._id}
+                className="border-2 border-black shadow-3d-sm p-6 bg-white"
+              >
+                <div className="flex items-start gap-4">
+                  {/* Reported User Photo */}
+                  <div className="w-16 h-16 rounded-full border-2 border-black overflow-hidden bg-gray-100 flex-shrink-0">
+                    {report.reportedUser?.photos &&
+                    report.reportedUser.photos.length > 0 ? (
+                      <img
+                        src={report.reportedUser.photos[0]}
+                        alt={report.reportedUser.name}
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center">
+                        <User className="h-8 w-8 text-muted-foreground" />
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Reported User Info */}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <h3 className="text-xl font-bold">
+                        {report.reportedUser?.name || 'Deleted user'}
+                      </h3>
+                      <span className="text-xs font-bold uppercase border-2 border-black px-2 py-1">
+                        {REASON_LABELS[report.reason]}
+                      </span>
+                    </div>
+                    {report.reportedUser && (
+                      <>
+                        <p className="text-sm text-muted-foreground">
+                          {report.reportedUser.email}
+                          {report.reportedUser.age && ` • ${report.reportedUser.age} years old`}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {report.reportedUser.totalReports} report(s) •{' '}
+                          {report.reportedUser.warningCount} warning(s)
+                          {report.reportedUser.bannedAt && ' • Banned'}
+                          {report.reportedUser.suspendedUntil &&
+                            report.reportedUser.suspendedUntil > Date.now() &&
+                            ` • Suspended until ${new Date(
+                              report.reportedUser.suspendedUntil
+                            ).toLocaleDateString()}`}
+                        </p>
+                        {report.reportedUser.bio && (
+                          <p className="text-sm mt-2">{report.reportedUser.bio}</p>
+                        )}
+                      </>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Reported by {report.reporterName} on{' '}
+                      {new Date(report.createdAt).toLocaleString([], {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                    </p>
+                    {report.details && (
+                      <p className="text-sm mt-2 italic">"{report.details}"</p>
+                    )}
+                  </div>
+                </div>
+
+                {/* Message Excerpts */}
+                <div className="mt-4 border-2 border-black p-4 max-h-64 overflow-y-auto space-y-2 bg-gray-50">
+                  {report.messageExcerpts.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No messages attached.</p>
+                  ) : (
+                    report.messageExcerpts.map((message, index) => (
+                      <p key={index} className="text-sm">
+                        <span
+                          className={`font-bold ${
+                            message.fromReportedUser ? 'text-destructive' : ''
+                          }`}
+                        >
+                          {message.fromReportedUser ? 'Reported' : 'Reporter'}:
+                        </span>{' '}
+                        {message.unsent ? (
+                          <span className="italic text-muted-foreground">(unsent)</span>
+                        ) : (
+                          message.content
+                        )}
+                        {/* Earlier versions of edited and unsent messages */}
+                        {message.previousVersions.map((version, versionIndex) => (
+                          <span key={versionIndex} className="block pl-4 text-xs text-muted-foreground">
+                            was: {version}
+                          </span>
+                        ))}
+                      </p>
+                    ))
+                  )}
+                </div>
+
+                {/* Actions */}
+                <div className="flex flex-wrap items-center gap-3 mt-4">
+                  <Button
+                    variant="outline"
+                    onClick={() => handleResolve(report._id, 'dismiss')}
+                  >
+                    Dismiss
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => handleResolve(report._id, 'warn')}
+                    disabled={!report.reportedUser}
+                  >
+                    Warn
+                  </Button>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min="1"
+                      max="365"
+                      value={suspendDays[report._id] ?? '7'}
+                      onChange={(e) =>
+                        setSuspendDays((prev) => ({ ...prev, [report._id]: e.target.value }))
+                      }
+                      className="w-20"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => handleResolve(report._id, 'suspend')}
+                      disabled={!report.reportedUser}
+                    >
+                      Suspend (days)
+                    </Button>
+                  </div>
+                  <Button
+                    variant="destructive"
+                    onClick={() => handleResolve(report._id, 'ban')}
+                    disabled={!report.reportedUser}
+                  >
+                    Ban
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
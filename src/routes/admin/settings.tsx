@@ -0,0 +1,183 @@
+import { createFileRoute, useNavigate, Link } from '@tanstack/react-router';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useUser } from '@clerk/tanstack-react-start';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { SETTING_LIMITS, SessionSettings } from '../../../convex/sessionRules';
+import { useState, useEffect } from 'react';
+import { Loader2, ArrowLeft, ShieldAlert } from 'lucide-react';
+import { toast } from 'sonner';
+
+export const Route = createFileRoute('/admin/settings')({
+  component: SettingsPage,
+});
+
+type SettingKey = keyof SessionSettings;
+
+// Labels and limits come from the server's validation
+const SETTING_UNITS: Record<SettingKey, string> = {
+  speedDatingMinutes: 'minutes',
+  maxMessageLength: 'characters',
+  rateLimitMessages: 'messages',
+  rateLimitWindowSeconds: 'seconds',
+  typingTimeoutSeconds: 'seconds',
+  editWindowMinutes: 'minutes',
+  maxExtensions: 'extensions',
+};
+
+const SETTING_FIELDS = (Object.keys(SETTING_UNITS) as SettingKey[]).map((key) => ({
+  key,
+  unit: SETTING_UNITS[key],
+  ...SETTING_LIMITS[key],
+}));
+
+function SettingsPage() {
+  const navigate = useNavigate();
+  const { isSignedIn, isLoaded } = useUser();
+  const currentUser = useQuery(api.users.getCurrentUser);
+  const isAdmin = currentUser?.role === 'admin';
+
+  const settings = useQuery(api.settings.get);
+  const updateSettings = useMutation(api.settings.update);
+  const [values, setValues] = useState<Record<SettingKey, string> | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Initialize form when settings load
+  useEffect(() => {
+    if (settings && !values) {
+      setValues({
+        speedDatingMinutes: settings.speedDatingMinutes.toString(),
+        maxMessageLength: settings.maxMessageLength.toString(),
+        rateLimitMessages: settings.rateLimitMessages.toString(),
+        rateLimitWindowSeconds: settings.rateLimitWindowSeconds.toString(),
+        typingTimeoutSeconds: settings.typingTimeoutSeconds.toString(),
+        editWindowMinutes: settings.editWindowMinutes.toString(),
+        maxExtensions: settings.maxExtensions.toString(),
+      });
+    }
+  }, [settings, values]);
+
+  // Redirect to login if not authenticated
+  if (isLoaded && !isSignedIn) {
+    navigate({ to: '/login' });
+    return null;
+  }
+
+  // Loading state
+  if (!isLoaded || currentUser === undefined || (isAdmin && !values)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+          <p className="text-muted-foreground">Loading settings...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAdmin || !values) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="text-center space-y-6 max-w-md">
+          <ShieldAlert className="h-16 w-16 mx-auto text-muted-foreground" />
+          <h2 className="text-2xl font-bold">Admins Only</h2>
+          <p className="text-muted-foreground">
+            You don't have permission to view this page.
+          </p>
+          <Button size="lg" onClick={() => navigate({ to: '/dashboard' })}>
+            Back to Dashboard
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const getError = (field: (typeof SETTING_FIELDS)[number]) => {
+    const value = Number(values[field.key]);
+    if (!Number.isInteger(value) || value < field.min || value > field.max) {
+      return `Must be a whole number between ${field.min} and ${field.max}`;
+    }
+    return null;
+  };
+
+  const isValid = SETTING_FIELDS.every((field) => !getError(field));
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await updateSettings({
+        speedDatingMinutes: Number(values.speedDatingMinutes),
+        maxMessageLength: Number(values.maxMessageLength),
+        rateLimitMessages: Number(values.rateLimitMessages),
+        rateLimitWindowSeconds: Number(values.rateLimitWindowSeconds),
+        typingTimeoutSeconds: Number(values.typingTimeoutSeconds),
+        editWindowMinutes: Number(values.editWindowMinutes),
+        maxExtensions: Number(values.maxExtensions),
+      });
+      toast.success('Settings saved');
+    } catch (error: any) {
+      console.error('Error saving settings:', error);
+      toast.error(error?.message || 'Failed to save settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <div className="border-b-2 border-black px-6 py-4 bg-white">
+        <div className="max-w-4xl mx-auto flex items-center gap-4">
+          <Link to="/dashboard">
+            <Button variant="outline" size="sm" className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold">Session Settings</h1>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-2xl mx-auto px-6 py-8 space-y-6">
+        <p className="text-muted-foreground">
+          Changes apply to new speed dates and messages right away. Running speed dates
+          keep their current end time.
+        </p>
+
+        {SETTING_FIELDS.map((field) => {
+          const error = getError(field);
+          return (
+            <div key={field.key} className="space-y-2">
+              <label className="text-lg font-bold">{field.label}</label>
+              <div className="flex items-center gap-3">
+                <Input
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  value={values[field.key]}
+                  onChange={(e) =>
+                    setValues((prev) => prev && { ...prev, [field.key]: e.target.value })
+                  }
+                  className="w-40"
+                />
+                <span className="text-muted-foreground">{field.unit}</span>
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+          );
+        })}
+
+        <Button
+          size="lg"
+          onClick={handleSave}
+          className="w-full"
+          disabled={!isValid || isSaving}
+        >
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save Settings'}
+        </Button>
+      </div>
+    </div>
+  );
+}
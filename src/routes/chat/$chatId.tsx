@@ -1,40 +1,126 @@
-import { createFileRoute, useNavigate } from '@tanstack/react-router';
+import { createFileRoute, useNavigate, Link } from '@tanstack/react-router';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useUser } from '@clerk/tanstack-react-start';
-import { useQuery, useMutation } from 'convex/react';
+import { useQuery, useMutation, usePaginatedQuery } from 'convex/react';
 import { api } from '../../../convex/_generated/api';
-import { Id } from '../../../convex/_generated/dataModel';
-import { useState, useEffect, useRef } from 'react';
-import { Send, Clock, LogOut, Heart, X, Loader2, User } from 'lucide-react';
+import { Doc, Id } from '../../../convex/_generated/dataModel';
+import { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import {
+  Send,
+  Clock,
+  LogOut,
+  Heart,
+  X,
+  Loader2,
+  User,
+  Ban,
+  Flag,
+  CheckCheck,
+  Sparkles,
+  Shuffle,
+  Pencil,
+  Trash2,
+} from 'lucide-react';
 import { toast } from 'sonner';
+import { ReportDialog } from '@/components/ReportDialog';
+import { getGenderLabel } from '../../../convex/genders';
 
 export const Route = createFileRoute('/chat/$chatId')({
   component: ChatPage,
 });
 
+// Number of messages loaded per page when scrolling up
+const MESSAGE_PAGE_SIZE = 30;
+
+// Must stay well under PRESENCE_TIMEOUT_MS in convex/presence.ts
+const PRESENCE_INTERVAL_MS = 20 * 1000;
+
+/**
+ * Text of a system message from the viewer's point of view
+ */
+function getSystemMessageText(
+  message: Doc<"messages">,
+  currentUserId: Id<"users">,
+  phase: Doc<"chatSessions">["phase"]
+) {
+  const byMe = message.senderId === currentUserId;
+  // Speed dates stay anonymous until both people choose to match
+  const partner = phase === 'extended' ? 'Your match' : 'Your date';
+
+  switch (message.payload?.type) {
+    case 'matched':
+      return "It's a match! You both chose to keep talking";
+    case 'skipped_to_reveal':
+      return "You both skipped to profiles. It's a match!";
+    case 'reconnected':
+      return byMe ? 'You accepted the chat request' : 'Your chat request was accepted';
+    case 'left':
+      return byMe ? 'You left the chat' : `${partner} left the chat`;
+    default:
+      return message.content;
+  }
+}
+
 function ChatPage() {
   const { chatId } = Route.useParams();
   const navigate = useNavigate();
   const { isSignedIn, isLoaded, user } = useUser();
   const [newMessage, setNewMessage] = useState('');
+  // Own message being edited through the input (null sends a new message)
+  const [editingMessageId, setEditingMessageId] = useState<Id<"messages"> | null>(null);
   const [showDecisionUI, setShowDecisionUI] = useState(false);
   const [myDecision, setMyDecision] = useState<boolean | null>(null);
+  const [showReportDialog, setShowReportDialog] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  // Scroll position saved before loading older messages, restored once they render
+  const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null);
   const timerExpiredRef = useRef(false);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const isTypingRef = useRef(false);
+  const lastMarkedReadRef = useRef(0);
+  const [isPageVisible, setIsPageVisible] = useState(
+    typeof document === 'undefined' || document.visibilityState === 'visible'
+  );
 
   // Convex queries - automatically reactive!
-  const chatData = useQuery(api.messages.list, {
+  const chatData = useQuery(api.messages.getSession, {
     chatSessionId: chatId as Id<"chatSessions">,
   });
 
+  // Messages of this session, newest first
+  const messagePages = usePaginatedQuery(
+    api.messages.list,
+    { chatSessionId: chatId as Id<"chatSessions"> },
+    { initialNumItems: MESSAGE_PAGE_SIZE }
+  );
+
+  // Messages from earlier sessions of the match, loaded once this session is exhausted
+  const history = usePaginatedQuery(
+    api.messages.listHistory,
+    showHistory ? { chatSessionId: chatId as Id<"chatSessions"> } : 'skip',
+    { initialNumItems: MESSAGE_PAGE_SIZE }
+  );
+
+  // Oldest first for display
+  const messages = [...messagePages.results].reverse();
+  const newestMessageId = messagePages.results[0]?._id;
+
   const sendMessage = useMutation(api.messages.send);
   const leaveChat = useMutation(api.messages.leaveChat);
   const makeDecision = useMutation(api.decisions.makeDecision);
   const setTyping = useMutation(api.messages.setTyping);
   const skipToReveal = useMutation(api.decisions.skipToReveal);
+  const extendTime = useMutation(api.decisions.extendTime);
+  const settings = useQuery(api.settings.get);
+  const shuffleIcebreaker = useMutation(api.icebreakers.shuffle);
+  const editMessage = useMutation(api.messages.edit);
+  const unsendMessage = useMutation(api.messages.unsend);
+  const blockUser = useMutation(api.blocks.block);
+  const markAsRead = useMutation(api.messages.markAsRead);
+  const updatePresence = useMutation(api.presence.update);
 
   // Handle typing indicator with debouncing
   const handleTypingChange = (value: string) => {
@@ -59,7 +145,8 @@ function ChatPage() {
       });
     }
 
-    // Set timeout to clear typing indicator after 3 seconds of no typing
+    // Clear typing indicator after 3 seconds of no typing (sooner if the server hides it sooner)
+    const typingIdleMs = Math.min(3000, (settings?.typingTimeoutSeconds ?? 5) * 1000);
     typingTimeoutRef.current = setTimeout(() => {
       if (isTypingRef.current) {
         isTypingRef.current = false;
@@ -70,7 +157,7 @@ function ChatPage() {
           console.error('Error clearing typing status:', error);
         });
       }
-    }, 3000);
+    }, typingIdleMs);
   };
 
   // Cleanup typing timeout on unmount
@@ -105,12 +192,124 @@ function ChatPage() {
     }
   }, [chatData?.chatSession?.status, showDecisionUI]);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Auto-scroll to bottom when new messages arrive (not when older pages load)
   useEffect(() => {
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [chatData?.messages]);
+  }, [newestMessageId]);
+
+  // Keep the viewport on the same message after older messages are added above it
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    const saved = scrollRestoreRef.current;
+    if (!container || !saved) return;
+
+    container.scrollTop = container.scrollHeight - saved.height + saved.top;
+    scrollRestoreRef.current = null;
+  }, [messagePages.results.length, history.results.length]);
+
+  // Load older messages when scrolled near the top: this session first, then earlier sessions
+  const handleMessagesScroll = () => {
+    const container = messagesContainerRef.current;
+    if (!container || container.scrollTop > 80) return;
+
+    const saveScrollPosition = () => {
+      scrollRestoreRef.current = {
+        height: container.scrollHeight,
+        top: container.scrollTop,
+      };
+    };
+
+    if (messagePages.status === 'CanLoadMore') {
+      saveScrollPosition();
+      messagePages.loadMore(MESSAGE_PAGE_SIZE);
+    } else if (messagePages.status === 'Exhausted' && chatData?.chatSession.matchId) {
+      if (!showHistory) {
+        saveScrollPosition();
+        setShowHistory(true);
+      } else if (history.status === 'CanLoadMore') {
+        saveScrollPosition();
+        history.loadMore(MESSAGE_PAGE_SIZE);
+      }
+    }
+  };
+
+  // Keep loading while the messages don't fill the screen (no scroll event would fire)
+  useEffect(() => {
+    const container = messagesContainerRef.current;
+    if (container && container.scrollHeight <= container.clientHeight) {
+      handleMessagesScroll();
+    }
+  }, [messagePages.status, history.status, chatData?.chatSession.matchId]);
+
+  // Track tab visibility so messages only count as read while the chat is on screen
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      setIsPageVisible(document.visibilityState === 'visible');
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Tell the server while this chat is on screen, so the other person's messages don't also push
+  const isChatActive = chatData?.chatSession.status === 'active';
+  useEffect(() => {
+    if (!isChatActive || !isPageVisible) return;
+
+    const chatSessionId = chatId as Id<"chatSessions">;
+    const sendPresence = (visible: boolean) => {
+      updatePresence({ chatSessionId, visible }).catch((error) =>
+        console.error('Error updating presence:', error)
+      );
+    };
+
+    sendPresence(true);
+    const interval = setInterval(() => sendPresence(true), PRESENCE_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      sendPresence(false);
+    };
+  }, [chatId, isChatActive, isPageVisible, updatePresence]);
+
+  // Mark the other user's messages as read once they scroll into view
+  useEffect(() => {
+    if (!chatData || !isPageVisible) return;
+
+    const unreadIncoming = messagePages.results.filter(
+      (m) =>
+        m.kind !== 'system' && m.senderId !== chatData.currentUserId && m.readAt === undefined
+    );
+    if (unreadIncoming.length === 0) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        const newestVisible = Math.max(
+          ...entries
+            .filter((entry) => entry.isIntersecting)
+            .map((entry) => Number((entry.target as HTMLElement).dataset.createdAt))
+        );
+
+        if (newestVisible > lastMarkedReadRef.current) {
+          lastMarkedReadRef.current = newestVisible;
+          markAsRead({
+            chatSessionId: chatId as Id<"chatSessions">,
+            upTo: newestVisible,
+          }).catch((error) => {
+            console.error('Error marking messages as read:', error);
+          });
+        }
+      },
+      { threshold: 0.5 }
+    );
+
+    unreadIncoming.forEach((m) => {
+      const element = document.querySelector(`[data-message-id="${m._id}"]`);
+      if (element) observer.observe(element);
+    });
+
+    return () => observer.disconnect();
+  }, [messagePages.results, chatData?.currentUserId, isPageVisible]);
 
   // Calculate time remaining
   const getTimeRemaining = () => {
@@ -128,6 +327,32 @@ function ChatPage() {
 
   const [timeRemaining, setTimeRemaining] = useState(getTimeRemaining());
 
+  // Calculate time left to decide (undecided counts as "no" on the server)
+  const getDecisionTimeRemaining = () => {
+    if (!chatData?.chatSession?.decisionDeadline) return null;
+    const diff = chatData.chatSession.decisionDeadline - Date.now();
+
+    if (diff <= 0) return '0:00';
+
+    const minutes = Math.floor(diff / 60000);
+    const seconds = Math.floor((diff % 60000) / 1000);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  const [decisionTimeRemaining, setDecisionTimeRemaining] = useState(getDecisionTimeRemaining());
+
+  // Update decision countdown while waiting for the reveal
+  useEffect(() => {
+    if (chatData?.chatSession?.status !== 'waiting_reveal') return;
+
+    setDecisionTimeRemaining(getDecisionTimeRemaining());
+    const decisionInterval = setInterval(() => {
+      setDecisionTimeRemaining(getDecisionTimeRemaining());
+    }, 1000);
+
+    return () => clearInterval(decisionInterval);
+  }, [chatData?.chatSession?.decisionDeadline, chatData?.chatSession?.status]);
+
   // Update timer every second and check for expiration
   // Optimized to only update state when value changes (prevents unnecessary re-renders)
   useEffect(() => {
@@ -167,14 +392,45 @@ function ChatPage() {
       }
       isTypingRef.current = false;
 
+      if (editingMessageId) {
+        await editMessage({ messageId: editingMessageId, content: newMessage });
+        setEditingMessageId(null);
+        setNewMessage('');
+        return;
+      }
+
       await sendMessage({
         chatSessionId: chatId as Id<"chatSessions">,
         content: newMessage,
       });
       setNewMessage('');
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error sending message:', error);
-      toast.error('Failed to send message');
+      toast.error(
+        editingMessageId ? error?.message || 'Failed to edit message' : 'Failed to send message'
+      );
+    }
+  };
+
+  const handleStartEdit = (message: Doc<"messages">) => {
+    setEditingMessageId(message._id);
+    setNewMessage(message.content);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessageId(null);
+    setNewMessage('');
+  };
+
+  const handleUnsend = async (messageId: Id<"messages">) => {
+    if (!window.confirm('Unsend this message?')) return;
+
+    try {
+      await unsendMessage({ messageId });
+      if (editingMessageId === messageId) handleCancelEdit();
+    } catch (error: any) {
+      console.error('Error unsending message:', error);
+      toast.error(error?.message || 'Failed to unsend message');
     }
   };
 
@@ -187,6 +443,21 @@ function ChatPage() {
     }
   };
 
+  const handleBlock = async () => {
+    if (!window.confirm("Block this person? You won't be matched or chat with them again.")) {
+      return;
+    }
+
+    try {
+      await blockUser({ chatSessionId: chatId as Id<"chatSessions"> });
+      toast.success('User blocked');
+      navigate({ to: '/dashboard' });
+    } catch (error) {
+      console.error('Error blocking user:', error);
+      toast.error('Failed to block user. Please try again.');
+    }
+  };
+
   const handleDecision = async (wantsToContinue: boolean) => {
     if (myDecision !== null) return;
 
@@ -231,8 +502,33 @@ function ChatPage() {
     }
   };
 
+  const handleExtend = async () => {
+    try {
+      const result = await extendTime({
+        chatSessionId: chatId as Id<"chatSessions">,
+      });
+      if (result.extended) {
+        toast.success('5 more minutes added!');
+      }
+    } catch (error: any) {
+      console.error('Error extending:', error);
+      toast.error(error?.message || 'Failed to extend. Please try again.');
+    }
+  };
+
+  const handleShuffleIcebreaker = async () => {
+    try {
+      await shuffleIcebreaker({
+        chatSessionId: chatId as Id<"chatSessions">,
+      });
+    } catch (error: any) {
+      console.error('Error shuffling icebreaker:', error);
+      toast.error(error?.message || 'Failed to shuffle. Please try again.');
+    }
+  };
+
   // Loading state
-  if (!isLoaded || chatData === undefined) {
+  if (!isLoaded || chatData === undefined || messagePages.status === 'LoadingFirstPage') {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center space-y-4">
@@ -265,10 +561,37 @@ function ChatPage() {
     );
   }
 
-  const { messages, chatSession, otherUser, currentUserId, otherUserIsTyping, skipCount } = chatData;
+  const {
+    chatSession,
+    otherUser,
+    currentUserId,
+    otherUserIsTyping,
+    skipCount,
+    extendCount,
+    extensionsLeft,
+    sharedInterests,
+    icebreaker,
+  } = chatData;
+
+  const isLoadingOlder =
+    messagePages.status === 'LoadingMore' ||
+    history.status === 'LoadingFirstPage' ||
+    history.status === 'LoadingMore';
+  // Own messages can be edited or unsent for a while, only in the live chat
+  const editWindowMs = (settings?.editWindowMinutes ?? 0) * 60 * 1000;
+  const canChangeMessage = (message: Doc<"messages">) =>
+    message.senderId === currentUserId &&
+    message.deletedAt === undefined &&
+    chatSession.status === 'active' &&
+    !chatEnded &&
+    Date.now() - message.createdAt < editWindowMs;
+
+  const isBeginningOfThread =
+    messagePages.status === 'Exhausted' &&
+    (!chatSession.matchId || (showHistory && history.status === 'Exhausted'));
 
   return (
-    <div className="min-h-screen flex flex-col">
+    <div className="h-screen flex flex-col">
       {/* Header */}
       <div className="border-b-2 border-black px-6 py-4 flex justify-between items-center bg-white">
         <div className="flex items-center gap-4">
@@ -284,6 +607,24 @@ function ChatPage() {
             <LogOut className="h-4 w-4" />
             Leave
           </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleBlock}
+            className="gap-2"
+          >
+            <Ban className="h-4 w-4" />
+            Block
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowReportDialog(true)}
+            className="gap-2"
+          >
+            <Flag className="h-4 w-4" />
+            Report
+          </Button>
         </div>
         {chatSession.phase === 'speed_dating' && (
           <div className="flex items-center gap-4">
@@ -301,6 +642,18 @@ function ChatPage() {
             >
               Skip to Profiles ({skipCount}/2)
             </Button>
+            <Button
+              variant={extendCount > 0 ? "default" : "outline"}
+              size="sm"
+              onClick={handleExtend}
+              disabled={extensionsLeft <= 0}
+              title={`${extensionsLeft} extension(s) left`}
+              className={`gap-2 font-bold transition-all ${
+                extendCount === 1 ? 'bg-black text-white animate-pulse' : ''
+              }`}
+            >
+              +5 min ({extendCount}/2)
+            </Button>
             <div className="flex items-center gap-2 text-lg font-mono">
               <Clock className="h-5 w-5" />
               <span className="font-bold">{timeRemaining}</span>
@@ -309,6 +662,17 @@ function ChatPage() {
         )}
       </div>
 
+      {/* Report Dialog */}
+      {showReportDialog && (
+        <ReportDialog
+          chatSessionId={chatId as Id<"chatSessions">}
+          onClose={() => setShowReportDialog(false)}
+          onReported={(blocked) => {
+            if (blocked) navigate({ to: '/dashboard' });
+          }}
+        />
+      )}
+
       {/* Chat Ended Overlay */}
       {chatEnded && (
         <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -324,7 +688,9 @@ function ChatPage() {
                   : "This chat has ended."}
               </p>
               <p className="text-sm text-muted-foreground">
-                All messages have been deleted for privacy.
+                {chatSession.matchId
+                  ? 'Your conversation is saved. Send a chat request from your matches to pick it up again.'
+                  : 'All messages have been deleted for privacy.'}
               </p>
               <Button
                 size="lg"
@@ -348,6 +714,11 @@ function ChatPage() {
             <p className="text-center text-lg mb-8">
               Do you want to continue chatting and see this person's profile?
             </p>
+            {decisionTimeRemaining && (
+              <p className="text-center text-sm text-muted-foreground -mt-6 mb-8">
+                No answer in {decisionTimeRemaining} counts as "No Thanks"
+              </p>
+            )}
 
             {myDecision === null ? (
               <div className="flex gap-4">
@@ -406,8 +777,8 @@ function ChatPage() {
                 <h3 className="text-xl font-bold">{otherUser.name || 'Anonymous'}</h3>
                 <p className="text-sm text-muted-foreground">
                   {otherUser.age ? `${otherUser.age} years old` : 'Age not set'}
-                  {otherUser.age && otherUser.gender && ' • '}
-                  {otherUser.gender && `${otherUser.gender.charAt(0).toUpperCase() + otherUser.gender.slice(1)}`}
+                  {otherUser.age && otherUser.genderIdentity && ' • '}
+                  {otherUser.genderIdentity && getGenderLabel(otherUser.genderIdentity)}
                 </p>
                 {otherUser.bio ? (
                   <p className="mt-2 text-sm">{otherUser.bio}</p>
@@ -417,39 +788,201 @@ function ChatPage() {
                   </p>
                 )}
               </div>
+              <Link
+                to="/profile/$userId"
+                params={{ userId: otherUser._id }}
+                className="text-sm font-bold underline"
+              >
+                View profile
+              </Link>
               <div className="text-4xl">❤️</div>
             </div>
           </div>
         </div>
       )}
 
+      {/* Conversation Hints */}
+      {sharedInterests.length > 0 && !chatEnded && (
+        <div className="border-b-2 border-black px-6 py-3 bg-gray-50">
+          <div className="max-w-4xl mx-auto flex flex-wrap items-center gap-2 text-sm">
+            <Sparkles className="h-4 w-4" />
+            <span className="font-bold">You both like</span>
+            {sharedInterests.map((interest) => (
+              <span key={interest} className="border-2 border-black px-2 py-0.5 bg-white font-bold">
+                {interest}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto px-6 py-8 space-y-4 bg-white">
-        {messages.length === 0 && (
+      <div
+        ref={messagesContainerRef}
+        onScroll={handleMessagesScroll}
+        className="flex-1 overflow-y-auto px-6 py-8 space-y-4 bg-white"
+      >
+        {isLoadingOlder && (
+          <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+        )}
+        {isBeginningOfThread && messages.length + history.results.length > 0 && (
+          <p className="text-center text-xs text-muted-foreground">
+            Beginning of your conversation
+          </p>
+        )}
+
+        {/* Earlier sessions of this match */}
+        {showHistory && (
+          <div className="space-y-4">
+            {[...history.results].reverse().map((message) => {
+              if (message.kind === 'system') {
+                return (
+                  <p
+                    key={message._id}
+                    className="text-center text-xs font-bold uppercase text-muted-foreground opacity-70"
+                  >
+                    {getSystemMessageText(message, currentUserId, chatSession.phase)}
+                  </p>
+                );
+              }
+
+              const isMyMessage = message.senderId === currentUserId;
+              return (
+                <div
+                  key={message._id}
+                  className={`flex ${isMyMessage ? 'justify-end' : 'justify-start'}`}
+                >
+                  <div
+                    className={`max-w-[70%] px-4 py-3 rounded-lg border-2 border-black opacity-70 ${
+                      isMyMessage
+                        ? 'bg-black text-white'
+                        : 'bg-white text-black'
+                    }`}
+                  >
+                    {message.deletedAt !== undefined ? (
+                      <p className="italic opacity-70">Message removed</p>
+                    ) : (
+                      <p className="break-words">{message.content}</p>
+                    )}
+                    <p className="text-xs mt-1 opacity-70">
+                      {new Date(message.createdAt).toLocaleString([], {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                      {message.editedAt !== undefined && message.deletedAt === undefined && ' • edited'}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+            {history.results.length > 0 && (
+              <div className="flex items-center gap-4 text-xs text-muted-foreground uppercase font-bold">
+                <div className="flex-1 border-t-2 border-dashed border-gray-300" />
+                This chat
+                <div className="flex-1 border-t-2 border-dashed border-gray-300" />
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Icebreaker (greyed out once the conversation starts) */}
+        {icebreaker && messagePages.status === 'Exhausted' && (
+          <div
+            className={`mx-auto max-w-md border-2 border-dashed border-black px-4 py-3 text-center bg-gray-50 transition-opacity ${
+              icebreaker.answered ? 'opacity-50' : ''
+            }`}
+          >
+            <p className="text-xs font-bold uppercase text-muted-foreground flex items-center justify-center gap-1">
+              <Sparkles className="h-3 w-3" />
+              Icebreaker
+            </p>
+            <p className="font-bold mt-1">{icebreaker.prompt}</p>
+            {!icebreaker.answered && !chatEnded && (
+              <button
+                onClick={handleShuffleIcebreaker}
+                className="mt-2 text-xs font-bold underline inline-flex items-center gap-1"
+              >
+                <Shuffle className="h-3 w-3" />
+                Shuffle
+              </button>
+            )}
+          </div>
+        )}
+
+        {messages.length === 0 && !showHistory && !icebreaker && (
           <div className="text-center text-muted-foreground">
             <p>No messages yet. Say hi!</p>
           </div>
         )}
         {messages.map((message) => {
+          // Phase changes are shown inline between the messages
+          if (message.kind === 'system') {
+            return (
+              <div key={message._id} className="flex justify-center">
+                <p className="text-xs font-bold uppercase border-2 border-black px-3 py-1 bg-gray-50">
+                  {getSystemMessageText(message, currentUserId, chatSession.phase)}
+                </p>
+              </div>
+            );
+          }
+
           const isMyMessage = message.senderId === currentUserId;
           return (
             <div
               key={message._id}
-              className={`flex ${isMyMessage ? 'justify-end' : 'justify-start'}`}
+              data-message-id={message._id}
+              data-created-at={message.createdAt}
+              className={`group flex items-center gap-2 ${isMyMessage ? 'justify-end' : 'justify-start'}`}
             >
+              {/* Edit and unsend (own messages, within the edit window) */}
+              {canChangeMessage(message) && (
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => handleStartEdit(message)}
+                    className="p-1 hover:bg-gray-100"
+                    title="Edit"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleUnsend(message._id)}
+                    className="p-1 hover:bg-gray-100"
+                    title="Unsend"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
               <div
                 className={`max-w-[70%] px-4 py-3 rounded-lg shadow-3d-sm border-2 border-black ${
-                  isMyMessage
+                  message.deletedAt !== undefined
+                    ? 'bg-gray-50 text-muted-foreground shadow-none'
+                    : isMyMessage
                     ? 'bg-black text-white'
                     : 'bg-white text-black'
-                }`}
+                } ${editingMessageId === message._id ? 'ring-4 ring-black/30' : ''}`}
               >
-                <p className="break-words">{message.content}</p>
-                <p className="text-xs mt-1 opacity-70">
+                {message.deletedAt !== undefined ? (
+                  <p className="italic">Message removed</p>
+                ) : (
+                  <p className="break-words">{message.content}</p>
+                )}
+                <p className="text-xs mt-1 opacity-70 flex items-center gap-1">
                   {new Date(message.createdAt).toLocaleTimeString([], {
                     hour: '2-digit',
                     minute: '2-digit',
                   })}
+                  {message.editedAt !== undefined && message.deletedAt === undefined && (
+                    <span>• edited</span>
+                  )}
+                  {message.seen && (
+                    <>
+                      <CheckCheck className="h-3 w-3" />
+                      Seen
+                    </>
+                  )}
                 </p>
               </div>
             </div>
@@ -477,12 +1010,24 @@ function ChatPage() {
         onSubmit={handleSendMessage}
         className="border-t-2 border-black px-6 py-4 bg-white"
       >
+        {editingMessageId && (
+          <div className="flex items-center justify-between text-sm mb-2">
+            <span className="flex items-center gap-2 font-bold">
+              <Pencil className="h-4 w-4" />
+              Editing message
+            </span>
+            <button type="button" onClick={handleCancelEdit} className="font-bold underline">
+              Cancel
+            </button>
+          </div>
+        )}
         <div className="flex gap-3">
           <Input
             type="text"
             placeholder={chatEnded ? "Chat has ended" : "Type a message..."}
             value={newMessage}
             onChange={(e) => handleTypingChange(e.target.value)}
+            maxLength={settings?.maxMessageLength}
             className="flex-1"
             disabled={chatEnded}
           />
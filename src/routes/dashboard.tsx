@@ -4,13 +4,24 @@ import { useUser, useClerk } from '@clerk/tanstack-react-start';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../convex/_generated/api';
 import { useState, useEffect, Fragment, useRef } from 'react';
-import { Loader2, User, Heart, Bell } from 'lucide-react';
+import { Loader2, User, Heart, Bell, Shield, AlertTriangle, Settings } from 'lucide-react';
 import { toast } from 'sonner';
 
 export const Route = createFileRoute('/dashboard')({
   component: Dashboard,
 });
 
+// Must stay well under QUEUE_HEARTBEAT_TIMEOUT_MS and QUEUE_PRESENCE_TIMEOUT_MS in convex/queue.ts
+const QUEUE_HEARTBEAT_INTERVAL_MS = 20 * 1000;
+
+/**
+ * Format an estimated wait, e.g. "~40s" or "~3 min"
+ */
+function formatWait(seconds: number) {
+  if (seconds < 60) return `~${Math.max(seconds, 5)}s`;
+  return `~${Math.round(seconds / 60)} min`;
+}
+
 function Dashboard() {
   const navigate = useNavigate();
   const { isSignedIn, isLoaded, user } = useUser();
@@ -21,8 +32,17 @@ function Dashboard() {
   const queueStatus = useQuery(api.queue.status);
   const joinQueue = useMutation(api.queue.join);
   const leaveQueue = useMutation(api.queue.leave);
+  const queueHeartbeat = useMutation(api.queue.heartbeat);
   const pendingRequests = useQuery(api.chatRequests.listPending);
   const matches = useQuery(api.matches.list);
+  const currentUser = useQuery(api.users.getCurrentUser);
+  const unreadNotificationCount = useQuery(api.notifications.unreadCount);
+
+  // Total unread messages across all matches for the badge
+  const unreadMessageCount = matches?.reduce((total, match) => total + match.unreadCount, 0) ?? 0;
+
+  // Bell badge covers requests waiting for an answer and unread notifications
+  const notificationBadgeCount = (pendingRequests?.length ?? 0) + (unreadNotificationCount ?? 0);
 
   // Track previous matches state to detect when a pending request becomes active
   const prevMatchesRef = useRef(matches);
@@ -87,6 +107,26 @@ function Dashboard() {
     }
   }, [queueStatus, navigate]);
 
+  // Tell the server we're still here while searching, so we stay matchable
+  useEffect(() => {
+    if (!queueStatus?.inQueue) return;
+
+    // Whether the dashboard is on screen decides if a match also sends a push
+    const sendHeartbeat = () => {
+      queueHeartbeat({ visible: document.visibilityState === 'visible' }).catch((error) =>
+        console.error('Error sending heartbeat:', error)
+      );
+    };
+
+    sendHeartbeat();
+    const interval = setInterval(sendHeartbeat, QUEUE_HEARTBEAT_INTERVAL_MS);
+    document.addEventListener('visibilitychange', sendHeartbeat);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', sendHeartbeat);
+    };
+  }, [queueStatus?.inQueue, queueHeartbeat]);
+
   // Auto-redirect when a new chat session is created (request accepted)
   useEffect(() => {
     if (!matches || !prevMatchesRef.current) {
@@ -157,27 +197,60 @@ function Dashboard() {
           </Button>
         </Link>
         <Link to="/matches">
-          <Button variant="outline" size="sm" className="gap-2">
+          <Button variant="outline" size="sm" className="gap-2 relative">
             <Heart className="h-4 w-4" />
             Matches
+            {unreadMessageCount > 0 && (
+              <span className="absolute -top-1 -right-1 bg-red-600 text-white text-xs rounded-full h-5 min-w-5 px-1 flex items-center justify-center font-bold">
+                {unreadMessageCount}
+              </span>
+            )}
           </Button>
         </Link>
         <Link to="/notifications">
           <Button variant="outline" size="sm" className="gap-2 relative">
             <Bell className="h-4 w-4" />
             Notifications
-            {pendingRequests && pendingRequests.length > 0 && (
-              <span className="absolute -top-1 -right-1 bg-red-600 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center font-bold">
-                {pendingRequests.length}
+            {notificationBadgeCount > 0 && (
+              <span className="absolute -top-1 -right-1 bg-red-600 text-white text-xs rounded-full h-5 min-w-5 px-1 flex items-center justify-center font-bold">
+                {notificationBadgeCount}
               </span>
             )}
           </Button>
         </Link>
+        {currentUser?.role === 'admin' && (
+          <Link to="/admin/reports">
+            <Button variant="outline" size="sm" className="gap-2">
+              <Shield className="h-4 w-4" />
+              Moderation
+            </Button>
+          </Link>
+        )}
+        {currentUser?.role === 'admin' && (
+          <Link to="/admin/settings">
+            <Button variant="outline" size="sm" className="gap-2">
+              <Settings className="h-4 w-4" />
+              Settings
+            </Button>
+          </Link>
+        )}
         <Button variant="ghost" onClick={handleSignOut} className="border-none shadow-none">
           Sign out
         </Button>
       </div>
 
+      {/* Moderation warning (shown for a week) */}
+      {queueStatus.lastWarnedAt &&
+        Date.now() - queueStatus.lastWarnedAt < 7 * 24 * 60 * 60 * 1000 && (
+          <div className="mb-12 max-w-md border-2 border-black shadow-3d-sm p-4 flex items-start gap-3 bg-yellow-50">
+            <AlertTriangle className="h-5 w-5 flex-shrink-0 mt-0.5" />
+            <p className="text-sm">
+              You received a warning after a report from another user. Please be
+              respectful - repeated reports lead to a suspension.
+            </p>
+          </div>
+        )}
+
       <div className="text-center space-y-12">
         {!queueStatus.inQueue && !queueStatus.matched && (
           <Fragment key="idle">
@@ -212,8 +285,21 @@ function Dashboard() {
             <div key="searching-text" className="space-y-4">
               <h1 className="text-5xl font-bold">Searching...</h1>
               <p className="text-lg text-muted-foreground">
-                Looking for someone to chat with
+                {queueStatus.waitingCount
+                  ? `${queueStatus.waitingCount}${queueStatus.waitingCountCapped ? '+' : ''} ${
+                      queueStatus.waitingCount === 1 && !queueStatus.waitingCountCapped
+                        ? 'person'
+                        : 'people'
+                    } searching`
+                  : 'Looking for someone to chat with'}
+                {queueStatus.estimatedWaitSeconds != null &&
+                  `, usually matched in ${formatWait(queueStatus.estimatedWaitSeconds)}`}
               </p>
+              {queueStatus.queuePosition !== undefined && queueStatus.queuePosition > 1 && (
+                <p className="text-sm text-muted-foreground">
+                  You're #{queueStatus.queuePosition} in line
+                </p>
+              )}
             </div>
 
             <div key="searching-actions" className="flex flex-col items-center gap-6">
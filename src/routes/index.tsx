@@ -1,11 +1,15 @@
 import { createFileRoute, Link } from '@tanstack/react-router'
 import { Button } from '@/components/ui/button'
+import { useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
 
 export const Route = createFileRoute('/')({
   component: Home,
 })
 
 function Home() {
+  const settings = useQuery(api.settings.get)
+
   return (
     <div className="min-h-screen flex items-center justify-center px-4">
       <div className="max-w-2xl w-full text-center">
@@ -14,7 +18,8 @@ function Home() {
             Speed Date
           </h1>
           <p className="text-xl text-muted-foreground max-w-md mx-auto">
-            15 minutes. Random connections. Real conversations.
+            {settings?.speedDatingMinutes ?? 15} minutes. Random connections. Real
+            conversations.
           </p>
         </div>
 
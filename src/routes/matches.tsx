@@ -3,10 +3,13 @@ import { Button } from '@/components/ui/button';
 import { useUser } from '@clerk/tanstack-react-start';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../convex/_generated/api';
-import { Loader2, Heart, User, ArrowLeft, Send } from 'lucide-react';
+import { Loader2, Heart, User, ArrowLeft, Send, Ban, Flag, HeartOff, X } from 'lucide-react';
 import { toast } from 'sonner';
 import { Id } from '../../convex/_generated/dataModel';
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { ReportDialog } from '@/components/ReportDialog';
+import { formatTimeLeft } from '@/lib/utils';
+import { getGenderLabel } from '../../convex/genders';
 
 export const Route = createFileRoute('/matches')({
   component: MatchesPage,
@@ -17,6 +20,15 @@ function MatchesPage() {
   const { isSignedIn, isLoaded } = useUser();
   const matches = useQuery(api.matches.list);
   const sendRequest = useMutation(api.chatRequests.send);
+  const cancelRequest = useMutation(api.chatRequests.cancel);
+  const blockUser = useMutation(api.blocks.block);
+  const unmatch = useMutation(api.matches.unmatch);
+  const unmatchNotices = useQuery(api.matches.listUnmatchNotices);
+  const dismissUnmatchNotice = useMutation(api.matches.dismissUnmatchNotice);
+  const [reportingChatSessionId, setReportingChatSessionId] = useState<Id<"chatSessions"> | null>(null);
+  const [unmatchingMatchId, setUnmatchingMatchId] = useState<Id<"matches"> | null>(null);
+  const [alsoBlock, setAlsoBlock] = useState(false);
+  const [isUnmatching, setIsUnmatching] = useState(false);
 
   // Track previous matches state to detect when a pending request becomes active
   const prevMatchesRef = useRef(matches);
@@ -31,6 +43,47 @@ function MatchesPage() {
     }
   };
 
+  const handleCancelRequest = async (requestId: Id<"chatRequests">) => {
+    try {
+      await cancelRequest({ requestId });
+      toast.success('Chat request cancelled');
+    } catch (error: any) {
+      console.error('Error cancelling request:', error);
+      toast.error(error?.message || 'Failed to cancel request');
+    }
+  };
+
+  const handleBlock = async (chatSessionId: Id<"chatSessions">) => {
+    if (!window.confirm("Block this person? They will be removed from your matches.")) {
+      return;
+    }
+
+    try {
+      await blockUser({ chatSessionId });
+      toast.success('User blocked');
+    } catch (error: any) {
+      console.error('Error blocking user:', error);
+      toast.error(error?.message || 'Failed to block user');
+    }
+  };
+
+  const handleUnmatch = async () => {
+    if (!unmatchingMatchId) return;
+
+    try {
+      setIsUnmatching(true);
+      await unmatch({ matchId: unmatchingMatchId, block: alsoBlock });
+      toast.success(alsoBlock ? 'Unmatched and blocked' : 'Unmatched');
+      setUnmatchingMatchId(null);
+      setAlsoBlock(false);
+    } catch (error: any) {
+      console.error('Error unmatching:', error);
+      toast.error(error?.message || 'Failed to unmatch');
+    } finally {
+      setIsUnmatching(false);
+    }
+  };
+
   // Auto-redirect when a new chat session is created (request accepted)
   useEffect(() => {
     if (!matches || !prevMatchesRef.current) {
@@ -95,6 +148,30 @@ function MatchesPage() {
 
       {/* Content */}
       <div className="max-w-4xl mx-auto px-6 py-8">
+        {/* Unmatch Notices */}
+        {unmatchNotices && unmatchNotices.length > 0 && (
+          <div className="space-y-3 mb-8">
+            {unmatchNotices.map((notice) => (
+              <div
+                key={notice._id}
+                className="border-2 border-black shadow-3d-sm p-4 bg-gray-50 flex items-center gap-3"
+              >
+                <HeartOff className="h-5 w-5 flex-shrink-0" />
+                <p className="flex-1 text-sm">
+                  <span className="font-bold">{notice.name}</span> is no longer matched with you.
+                </p>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => dismissUnmatchNotice({ noticeId: notice._id })}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {matches.length === 0 ? (
           <div className="text-center py-16">
             <Heart className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
@@ -115,30 +192,47 @@ function MatchesPage() {
               >
                 <div className="flex items-start gap-4">
                   {/* Profile Photo */}
-                  <div className="w-20 h-20 rounded-full border-2 border-black overflow-hidden bg-gray-100 flex-shrink-0">
-                    {match.otherUser?.photos &&
-                    match.otherUser.photos.length > 0 ? (
-                      <img
-                        src={match.otherUser.photos[0]}
-                        alt={match.otherUser.name}
-                        className="w-full h-full object-cover"
-                      />
-                    ) : (
-                      <div className="w-full h-full flex items-center justify-center">
-                        <User className="h-10 w-10 text-muted-foreground" />
-                      </div>
+                  <div className="relative flex-shrink-0">
+                    <div className="w-20 h-20 rounded-full border-2 border-black overflow-hidden bg-gray-100">
+                      {match.otherUser?.photos &&
+                      match.otherUser.photos.length > 0 ? (
+                        <img
+                          src={match.otherUser.photos[0]}
+                          alt={match.otherUser.name}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center">
+                          <User className="h-10 w-10 text-muted-foreground" />
+                        </div>
+                      )}
+                    </div>
+                    {match.unreadCount > 0 && (
+                      <span className="absolute -top-1 -right-1 bg-red-600 text-white text-xs rounded-full h-6 min-w-6 px-1 flex items-center justify-center font-bold border-2 border-white">
+                        {match.unreadCount}
+                      </span>
                     )}
                   </div>
 
                   {/* Info */}
                   <div className="flex-1 min-w-0">
                     <h3 className="text-xl font-bold mb-1">
-                      {match.otherUser?.name || 'Anonymous'}
+                      {match.otherUser ? (
+                        <Link
+                          to="/profile/$userId"
+                          params={{ userId: match.otherUser._id }}
+                          className="hover:underline"
+                        >
+                          {match.otherUser.name || 'Anonymous'}
+                        </Link>
+                      ) : (
+                        'Anonymous'
+                      )}
                     </h3>
                     <p className="text-sm text-muted-foreground mb-2">
                       {match.otherUser?.age ? `${match.otherUser.age} years old` : 'Age not set'}
-                      {match.otherUser?.gender &&
-                        ` • ${match.otherUser.gender.charAt(0).toUpperCase() + match.otherUser.gender.slice(1)}`}
+                      {match.otherUser?.genderIdentity &&
+                        ` • ${getGenderLabel(match.otherUser.genderIdentity)}`}
                     </p>
                     {match.otherUser?.bio ? (
                       <p className="text-sm line-clamp-2 mb-3">
@@ -172,15 +266,39 @@ function MatchesPage() {
                         View Chat
                       </Button>
                     </Link>
+                  ) : match.hasPendingRequest && match.isRequestSender ? (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        className="flex-1"
+                        disabled
+                      >
+                        {match.requestExpiresAt
+                          ? `Pending • expires in ${formatTimeLeft(match.requestExpiresAt)}`
+                          : 'Request Pending...'}
+                      </Button>
+                      {match.pendingRequestId && (
+                        <Button
+                          variant="outline"
+                          onClick={() => handleCancelRequest(match.pendingRequestId!)}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
                   ) : match.hasPendingRequest ? (
+                    <Link to="/notifications">
+                      <Button variant="outline" className="w-full">
+                        Incoming Request • Respond
+                      </Button>
+                    </Link>
+                  ) : match.requestCooldownEndsAt ? (
                     <Button
                       variant="outline"
                       className="w-full"
                       disabled
                     >
-                      {match.isRequestSender
-                        ? 'Request Pending...'
-                        : 'Incoming Request'}
+                      Declined • ask again in {formatTimeLeft(match.requestCooldownEndsAt)}
                     </Button>
                   ) : (
                     <Button
@@ -193,11 +311,100 @@ function MatchesPage() {
                     </Button>
                   )}
                 </div>
+
+                {/* Safety */}
+                <div className="mt-3 flex justify-end gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-1 text-muted-foreground"
+                    onClick={() => setUnmatchingMatchId(match._id)}
+                  >
+                    <HeartOff className="h-3 w-3" />
+                    Unmatch
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-1 text-muted-foreground"
+                    onClick={() => handleBlock(match.chatSessionId)}
+                  >
+                    <Ban className="h-3 w-3" />
+                    Block
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-1 text-muted-foreground"
+                    onClick={() => setReportingChatSessionId(match.chatSessionId)}
+                  >
+                    <Flag className="h-3 w-3" />
+                    Report
+                  </Button>
+                </div>
               </div>
             ))}
           </div>
         )}
       </div>
+
+      {/* Unmatch Dialog */}
+      {unmatchingMatchId && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white border-4 border-black shadow-3d-lg p-8 max-w-md w-full mx-4">
+            <h2 className="text-3xl font-bold mb-2">Unmatch?</h2>
+            <p className="text-muted-foreground mb-6">
+              Your conversation will be deleted for both of you and any pending
+              chat requests will be cancelled. This can't be undone.
+            </p>
+
+            <label className="flex items-center gap-2 mb-6 font-bold">
+              <input
+                type="checkbox"
+                checked={alsoBlock}
+                onChange={(e) => setAlsoBlock(e.target.checked)}
+                className="h-4 w-4 accent-black"
+              />
+              Also block this person
+            </label>
+
+            <div className="flex gap-4">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setUnmatchingMatchId(null);
+                  setAlsoBlock(false);
+                }}
+                className="flex-1"
+                disabled={isUnmatching}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleUnmatch}
+                className="flex-1 gap-2"
+                disabled={isUnmatching}
+              >
+                {isUnmatching ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <HeartOff className="h-4 w-4" />
+                )}
+                Unmatch
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Report Dialog */}
+      {reportingChatSessionId && (
+        <ReportDialog
+          chatSessionId={reportingChatSessionId}
+          onClose={() => setReportingChatSessionId(null)}
+        />
+      )}
     </div>
   );
 }
@@ -3,9 +3,26 @@ import { Button } from '@/components/ui/button';
 import { useUser } from '@clerk/tanstack-react-start';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../convex/_generated/api';
-import { Loader2, Bell, User, ArrowLeft, Check, X } from 'lucide-react';
+import { Loader2, Bell, User, ArrowLeft, Check, X, CheckCheck } from 'lucide-react';
 import { toast } from 'sonner';
 import { Id } from '../../convex/_generated/dataModel';
+import { formatTimeLeft } from '@/lib/utils';
+import { getGenderLabel } from '../../convex/genders';
+
+const SENT_STATUS_LABELS: Record<string, string> = {
+  pending: 'Waiting for a reply',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  cancelled: 'Cancelled',
+  expired: 'Expired without a reply',
+};
+
+const NOTIFICATION_TEXT: Record<string, string> = {
+  new_match: 'matched with you!',
+  request_accepted: 'accepted your chat request',
+  request_declined: 'declined your chat request',
+  new_message: 'sent you a message',
+};
 
 export const Route = createFileRoute('/notifications')({
   component: NotificationsPage,
@@ -17,6 +34,11 @@ function NotificationsPage() {
   const requests = useQuery(api.chatRequests.listPending);
   const acceptRequest = useMutation(api.chatRequests.accept);
   const declineRequest = useMutation(api.chatRequests.decline);
+  const cancelRequest = useMutation(api.chatRequests.cancel);
+  const sentRequests = useQuery(api.chatRequests.listSent);
+  const notifications = useQuery(api.notifications.list);
+  const markAsRead = useMutation(api.notifications.markAsRead);
+  const markAllAsRead = useMutation(api.notifications.markAllAsRead);
 
   // Redirect to login if not authenticated
   if (isLoaded && !isSignedIn) {
@@ -25,7 +47,7 @@ function NotificationsPage() {
   }
 
   // Loading state
-  if (!isLoaded || requests === undefined) {
+  if (!isLoaded || requests === undefined || notifications === undefined) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center space-y-4">
@@ -60,6 +82,45 @@ function NotificationsPage() {
     }
   };
 
+  const handleCancel = async (requestId: Id<"chatRequests">) => {
+    try {
+      await cancelRequest({ requestId });
+      toast.success('Chat request cancelled');
+    } catch (error: any) {
+      console.error('Error cancelling request:', error);
+      toast.error(error?.message || 'Failed to cancel request');
+    }
+  };
+
+  const handleOpenNotification = async (notification: (typeof notifications)[number]) => {
+    if (!notification.read) {
+      markAsRead({ notificationId: notification._id }).catch((error) =>
+        console.error('Error marking notification as read:', error)
+      );
+    }
+
+    // Declined requests have nothing to open, so they go back to the match list
+    if (notification.chatSessionId && notification.type !== 'request_declined') {
+      navigate({
+        to: '/chat/$chatId',
+        params: { chatId: notification.chatSessionId },
+      });
+    } else {
+      navigate({ to: '/matches' });
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    try {
+      await markAllAsRead({});
+    } catch (error: any) {
+      console.error('Error marking notifications as read:', error);
+      toast.error(error?.message || 'Failed to mark notifications as read');
+    }
+  };
+
+  const hasUnread = notifications.some((notification) => !notification.read);
+
   return (
     <div className="min-h-screen bg-white">
       {/* Header */}
@@ -71,18 +132,24 @@ function NotificationsPage() {
               Back
             </Button>
           </Link>
-          <h1 className="text-2xl font-bold">Notifications</h1>
+          <h1 className="text-2xl font-bold flex-1">Notifications</h1>
+          {hasUnread && (
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleMarkAllAsRead}>
+              <CheckCheck className="h-4 w-4" />
+              Mark all read
+            </Button>
+          )}
         </div>
       </div>
 
       {/* Content */}
       <div className="max-w-4xl mx-auto px-6 py-8">
-        {requests.length === 0 ? (
+        {requests.length === 0 && notifications.length === 0 ? (
           <div className="text-center py-16">
             <Bell className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
             <h2 className="text-2xl font-bold mb-2">No new notifications</h2>
             <p className="text-muted-foreground mb-6">
-              Chat requests from your matches will appear here
+              Matches, messages and chat requests will appear here
             </p>
             <Link to="/dashboard">
               <Button size="lg">Find Match</Button>
@@ -121,11 +188,8 @@ function NotificationsPage() {
                       {request.fromUser?.age
                         ? `${request.fromUser.age} years old`
                         : 'Age not set'}
-                      {request.fromUser?.gender &&
-                        ` • ${
-                          request.fromUser.gender.charAt(0).toUpperCase() +
-                          request.fromUser.gender.slice(1)
-                        }`}
+                      {request.fromUser?.genderIdentity &&
+                        ` • ${getGenderLabel(request.fromUser.genderIdentity)}`}
                     </p>
                     <p className="text-sm mb-2">
                       Wants to chat with you again!
@@ -137,6 +201,8 @@ function NotificationsPage() {
                         hour: '2-digit',
                         minute: '2-digit',
                       })}
+                      {request.expiresAt &&
+                        ` • Expires in ${formatTimeLeft(request.expiresAt)}`}
                     </p>
                   </div>
                 </div>
@@ -163,6 +229,94 @@ function NotificationsPage() {
             ))}
           </div>
         )}
+
+        {/* Activity */}
+        {notifications.length > 0 && (
+          <div className={requests.length > 0 ? 'mt-12' : ''}>
+            <h2 className="text-xl font-bold mb-4">Activity</h2>
+            <div className="space-y-3">
+              {notifications.map((notification) => (
+                <button
+                  key={notification._id}
+                  onClick={() => handleOpenNotification(notification)}
+                  className={`w-full text-left border-2 border-black p-4 flex items-center gap-4 transition-all hover:shadow-3d-sm ${
+                    notification.read ? 'bg-white' : 'bg-gray-50'
+                  }`}
+                >
+                  <div className="w-12 h-12 rounded-full border-2 border-black overflow-hidden bg-gray-100 flex-shrink-0">
+                    {notification.actor?.photo ? (
+                      <img
+                        src={notification.actor.photo}
+                        alt={notification.actor.name}
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center">
+                        <User className="h-6 w-6 text-muted-foreground" />
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className={notification.read ? '' : 'font-bold'}>
+                      {notification.actor?.name || 'Someone'}{' '}
+                      {NOTIFICATION_TEXT[notification.type]}
+                    </p>
+                    {notification.preview && (
+                      <p className="text-sm text-muted-foreground truncate">
+                        {notification.preview}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(notification.createdAt).toLocaleString([], {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                    </p>
+                  </div>
+                  {!notification.read && (
+                    <span className="h-3 w-3 rounded-full bg-red-600 flex-shrink-0" />
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Sent Requests */}
+        {sentRequests && sentRequests.length > 0 && (
+          <div className="mt-12">
+            <h2 className="text-xl font-bold mb-4">Sent Requests</h2>
+            <div className="space-y-3">
+              {sentRequests.map((request) => (
+                <div
+                  key={request._id}
+                  className="border-2 border-black p-4 bg-white flex items-center gap-4"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold">{request.toUser?.name || 'Anonymous'}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {SENT_STATUS_LABELS[request.status]}
+                      {request.status === 'pending' &&
+                        request.expiresAt &&
+                        ` • Expires in ${formatTimeLeft(request.expiresAt)}`}
+                    </p>
+                  </div>
+                  {request.status === 'pending' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleCancel(request._id)}
+                    >
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
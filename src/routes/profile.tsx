@@ -4,44 +4,92 @@ import { Input } from '@/components/ui/input';
 import { useUser } from '@clerk/tanstack-react-start';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
 import { useState, useRef, useEffect } from 'react';
-import { Loader2, Upload, User } from 'lucide-react';
+import { Loader2, Plus, User, MapPin, Star, Trash2, RefreshCw, BellRing, X } from 'lucide-react';
 import { toast } from 'sonner';
+import {
+  isPushSupported,
+  getPushSubscription,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from '@/lib/push';
+import { INTERESTS, MAX_INTERESTS, QUESTIONS } from '../../convex/compatibility';
+import { GENDER_IDENTITIES, GenderIdentity } from '../../convex/genders';
 
 export const Route = createFileRoute('/profile')({
   component: ProfilePage,
 });
 
+// Must match MAX_PHOTOS in convex/profile.ts
+const MAX_PHOTOS = 6;
+
 function ProfilePage() {
   const navigate = useNavigate();
   const { isSignedIn, isLoaded } = useUser();
   const profile = useQuery(api.profile.get);
   const updateProfile = useMutation(api.profile.update);
   const generateUploadUrl = useMutation(api.profile.generateUploadUrl);
+  const addPhoto = useMutation(api.profile.addPhoto);
+  const replacePhoto = useMutation(api.profile.replacePhoto);
+  const removePhoto = useMutation(api.profile.removePhoto);
+  const reorderPhotos = useMutation(api.profile.reorderPhotos);
+  const setPrimaryPhoto = useMutation(api.profile.setPrimaryPhoto);
+  const subscribePush = useMutation(api.push.subscribe);
+  const unsubscribePush = useMutation(api.push.unsubscribe);
 
   const [age, setAge] = useState<string>('');
-  const [gender, setGender] = useState<string>('');
-  const [genderPreference, setGenderPreference] = useState<string>('');
+  const [genderIdentity, setGenderIdentity] = useState<GenderIdentity | null>(null);
+  const [interestedIn, setInterestedIn] = useState<GenderIdentity[]>([]);
   const [bio, setBio] = useState<string>('');
+  const [interests, setInterests] = useState<string[]>([]);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [minAgePreference, setMinAgePreference] = useState<string>('');
+  const [maxAgePreference, setMaxAgePreference] = useState<string>('');
+  const [maxDistanceKm, setMaxDistanceKm] = useState<string>('');
+  const [location, setLocation] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const [pushSupported, setPushSupported] = useState(false);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [isTogglingPush, setIsTogglingPush] = useState(false);
+  const [emailPreferences, setEmailPreferences] = useState({
+    chatRequests: true,
+    dailyDigest: true,
+  });
   const [isUploading, setIsUploading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  // Photo being replaced by the next upload (null adds a new photo)
+  const [replacingId, setReplacingId] = useState<Id<"_storage"> | null>(null);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Initialize form when profile loads
   useEffect(() => {
     if (profile) {
       setAge(profile.age?.toString() || '');
-      setGender(profile.gender || '');
-      setGenderPreference(profile.genderPreference || '');
+      setGenderIdentity(profile.genderIdentity || null);
+      setInterestedIn(profile.interestedIn || []);
       setBio(profile.bio || '');
-      if (profile.photos && profile.photos.length > 0) {
-        setPreviewUrl(profile.photos[0]);
-      }
+      setInterests(profile.interests || []);
+      setAnswers(profile.questionnaireAnswers || {});
+      setMinAgePreference(profile.minAgePreference?.toString() || '');
+      setMaxAgePreference(profile.maxAgePreference?.toString() || '');
+      setMaxDistanceKm(profile.maxDistanceKm?.toString() || '');
+      setLocation(profile.location || null);
+      setEmailPreferences(
+        profile.emailPreferences || { chatRequests: true, dailyDigest: true }
+      );
     }
   }, [profile]);
 
+  // Push support and subscriptions only exist in the browser
+  useEffect(() => {
+    setPushSupported(isPushSupported());
+    getPushSubscription()
+      .then((subscription) => setPushEnabled(!!subscription))
+      .catch((error) => console.error('Error checking push subscription:', error));
+  }, []);
+
   // Redirect to login if not authenticated
   if (isLoaded && !isSignedIn) {
     navigate({ to: '/login' });
@@ -60,8 +108,19 @@ function ProfilePage() {
     );
   }
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const gallery = profile.gallery;
+  // Photos from before the gallery; read-only until they're migrated into it
+  const legacyPhotos = profile.legacyPhotos;
+
+  const openFilePicker = (storageId: Id<"_storage"> | null) => {
+    setReplacingId(storageId);
+    fileInputRef.current?.click();
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Allow picking the same file again later
+    e.target.value = '';
     if (!file) return;
 
     // Validate file type
@@ -76,43 +135,142 @@ function ProfilePage() {
       return;
     }
 
-    setSelectedFile(file);
-    setPreviewUrl(URL.createObjectURL(file));
+    try {
+      setIsUploading(true);
+      const uploadUrl = await generateUploadUrl();
+
+      const uploadResponse = await fetch(uploadUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type },
+        body: file,
+      });
+
+      if (!uploadResponse.ok) {
+        throw new Error('Failed to upload photo');
+      }
+
+      const { storageId } = await uploadResponse.json();
+
+      if (replacingId) {
+        await replacePhoto({ oldStorageId: replacingId, newStorageId: storageId });
+      } else {
+        await addPhoto({ storageId });
+      }
+    } catch (error: any) {
+      console.error('Error uploading photo:', error);
+      toast.error(error?.message || 'Failed to upload photo');
+    } finally {
+      setIsUploading(false);
+      setReplacingId(null);
+    }
   };
 
-  const handleSave = async () => {
+  const handleRemovePhoto = async (storageId: Id<"_storage">) => {
     try {
-      setIsSaving(true);
+      await removePhoto({ storageId });
+    } catch (error: any) {
+      console.error('Error removing photo:', error);
+      toast.error(error?.message || 'Failed to remove photo');
+    }
+  };
 
-      let photoStorageId = undefined;
+  const handleSetPrimary = async (storageId: Id<"_storage">) => {
+    try {
+      await setPrimaryPhoto({ storageId });
+    } catch (error: any) {
+      console.error('Error setting primary photo:', error);
+      toast.error(error?.message || 'Failed to set primary photo');
+    }
+  };
 
-      // Upload photo if selected
-      if (selectedFile) {
-        setIsUploading(true);
-        const uploadUrl = await generateUploadUrl();
+  const handleDrop = async (targetIndex: number) => {
+    if (draggedIndex === null || draggedIndex === targetIndex) {
+      setDraggedIndex(null);
+      return;
+    }
 
-        const uploadResponse = await fetch(uploadUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': selectedFile.type },
-          body: selectedFile,
-        });
+    const storageIds = gallery.map((photo) => photo.storageId);
+    const [moved] = storageIds.splice(draggedIndex, 1);
+    storageIds.splice(targetIndex, 0, moved);
+    setDraggedIndex(null);
 
-        if (!uploadResponse.ok) {
-          throw new Error('Failed to upload photo');
-        }
+    try {
+      await reorderPhotos({ storageIds });
+    } catch (error: any) {
+      console.error('Error reordering photos:', error);
+      toast.error(error?.message || 'Failed to reorder photos');
+    }
+  };
 
-        const { storageId } = await uploadResponse.json();
-        photoStorageId = storageId;
-        setIsUploading(false);
+  const handleTogglePush = async () => {
+    try {
+      setIsTogglingPush(true);
+      if (pushEnabled) {
+        const endpoint = await unsubscribeFromPush();
+        if (endpoint) await unsubscribePush({ endpoint });
+        setPushEnabled(false);
+        toast.success('Browser notifications turned off');
+      } else {
+        await subscribePush(await subscribeToPush());
+        setPushEnabled(true);
+        toast.success('Browser notifications turned on');
       }
+    } catch (error: any) {
+      console.error('Error toggling push notifications:', error);
+      toast.error(error?.message || 'Failed to update browser notifications');
+    } finally {
+      setIsTogglingPush(false);
+    }
+  };
+
+  const handleUseLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error('Location is not supported by your browser');
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        // Only a coarse position is needed - the server rounds it further
+        setLocation({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        });
+        setIsLocating(false);
+      },
+      (error) => {
+        console.error('Error getting location:', error);
+        toast.error('Could not get your location');
+        setIsLocating(false);
+      },
+      { enableHighAccuracy: false }
+    );
+  };
+
+  // A distance limit needs a location, so it goes too
+  const handleClearLocation = () => {
+    setLocation(null);
+    setMaxDistanceKm('');
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
 
       // Update profile
       await updateProfile({
         age: age ? parseInt(age) : undefined,
-        gender: gender as any,
-        genderPreference: genderPreference as any,
+        genderIdentity: genderIdentity || undefined,
+        interestedIn,
         bio: bio || undefined,
-        photoStorageId,
+        minAgePreference: minAgePreference ? parseInt(minAgePreference) : null,
+        maxAgePreference: maxAgePreference ? parseInt(maxAgePreference) : null,
+        location,
+        maxDistanceKm: maxDistanceKm ? parseInt(maxDistanceKm) : null,
+        emailPreferences,
+        interests,
+        questionnaireAnswers: answers,
       });
 
       toast.success('Profile updated successfully!');
@@ -122,11 +280,34 @@ function ProfilePage() {
       toast.error(error?.message || 'Failed to update profile');
     } finally {
       setIsSaving(false);
-      setIsUploading(false);
     }
   };
 
-  const isValid = age && parseInt(age) >= 18 && gender && genderPreference;
+  const toggleInterestedIn = (identity: GenderIdentity) => {
+    setInterestedIn((prev) =>
+      prev.includes(identity) ? prev.filter((id) => id !== identity) : [...prev, identity]
+    );
+  };
+
+  const isInterestedInEveryone = interestedIn.length === GENDER_IDENTITIES.length;
+
+  const toggleInterest = (interestId: string) => {
+    setInterests((prev) =>
+      prev.includes(interestId)
+        ? prev.filter((id) => id !== interestId)
+        : prev.length < MAX_INTERESTS
+          ? [...prev, interestId]
+          : prev
+    );
+  };
+
+  const isAgeRangeValid =
+    !minAgePreference ||
+    !maxAgePreference ||
+    parseInt(minAgePreference) <= parseInt(maxAgePreference);
+
+  const isValid =
+    age && parseInt(age) >= 18 && genderIdentity && interestedIn.length > 0 && isAgeRangeValid;
 
   return (
     <div className="min-h-screen bg-white px-4 py-8">
@@ -139,54 +320,112 @@ function ProfilePage() {
         </div>
 
         <div className="space-y-8">
-          {/* Profile Photo */}
+          {/* Photos */}
           <div className="space-y-4">
-            <label className="text-lg font-bold">Profile Photo</label>
-            <div className="flex items-center gap-6">
-              <div className="relative">
-                <div className="w-32 h-32 rounded-full border-4 border-black overflow-hidden bg-gray-100 flex items-center justify-center">
-                  {previewUrl ? (
+            <div className="flex justify-between items-center">
+              <label className="text-lg font-bold">Photos</label>
+              <span className="text-sm text-muted-foreground">
+                {gallery.length}/{MAX_PHOTOS}
+              </span>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+            <div className="grid grid-cols-3 gap-3">
+              {gallery.map((photo, index) => (
+                <div
+                  key={photo.storageId}
+                  draggable
+                  onDragStart={() => setDraggedIndex(index)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={() => handleDrop(index)}
+                  onDragEnd={() => setDraggedIndex(null)}
+                  className={`relative aspect-square border-2 border-black overflow-hidden bg-gray-100 cursor-move ${
+                    draggedIndex === index ? 'opacity-40' : ''
+                  } ${index === 0 ? 'shadow-3d-sm' : ''}`}
+                >
+                  {photo.url ? (
                     <img
-                      src={previewUrl}
-                      alt="Profile"
-                      className="w-full h-full object-cover"
+                      src={photo.url}
+                      alt={`Photo ${index + 1}`}
+                      className="w-full h-full object-cover pointer-events-none"
                     />
                   ) : (
-                    <User className="h-16 w-16 text-muted-foreground" />
+                    <div className="w-full h-full flex items-center justify-center">
+                      <User className="h-12 w-12 text-muted-foreground" />
+                    </div>
+                  )}
+                  {index === 0 && (
+                    <span className="absolute top-2 left-2 bg-black text-white text-xs font-bold px-2 py-1">
+                      Primary
+                    </span>
                   )}
+                  <div className="absolute bottom-0 inset-x-0 flex justify-end gap-1 p-1 bg-white/80 border-t-2 border-black">
+                    {index !== 0 && (
+                      <button
+                        onClick={() => handleSetPrimary(photo.storageId)}
+                        title="Make primary"
+                        className="p-1 hover:bg-gray-200"
+                      >
+                        <Star className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => openFilePicker(photo.storageId)}
+                      title="Replace"
+                      disabled={isUploading}
+                      className="p-1 hover:bg-gray-200"
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRemovePhoto(photo.storageId)}
+                      title="Delete"
+                      className="p-1 hover:bg-gray-200 text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
                 </div>
-              </div>
-              <div>
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  accept="image/*"
-                  onChange={handleFileSelect}
-                  className="hidden"
-                />
-                <Button
-                  variant="outline"
-                  onClick={() => fileInputRef.current?.click()}
-                  className="gap-2"
+              ))}
+              {legacyPhotos.map((url, index) => (
+                <div
+                  key={url}
+                  className="relative aspect-square border-2 border-black overflow-hidden bg-gray-100"
+                >
+                  <img
+                    src={url}
+                    alt={`Older photo ${index + 1}`}
+                    className="w-full h-full object-cover"
+                  />
+                  <span className="absolute bottom-0 inset-x-0 bg-white/80 border-t-2 border-black text-xs font-bold px-2 py-1">
+                    Moving to your gallery soon
+                  </span>
+                </div>
+              ))}
+              {gallery.length < MAX_PHOTOS && (
+                <button
+                  onClick={() => openFilePicker(null)}
                   disabled={isUploading}
+                  className="aspect-square border-2 border-dashed border-black flex flex-col items-center justify-center gap-2 font-bold hover:bg-gray-50 disabled:opacity-50"
                 >
                   {isUploading ? (
-                    <>
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      Uploading...
-                    </>
+                    <Loader2 className="h-6 w-6 animate-spin" />
                   ) : (
-                    <>
-                      <Upload className="h-4 w-4" />
-                      Upload Photo
-                    </>
+                    <Plus className="h-6 w-6" />
                   )}
-                </Button>
-                <p className="text-sm text-muted-foreground mt-2">
-                  Max 5MB. JPG, PNG, or GIF.
-                </p>
-              </div>
+                  {isUploading ? 'Uploading...' : 'Add Photo'}
+                </button>
+              )}
             </div>
+            <p className="text-sm text-muted-foreground">
+              Drag to reorder. The first photo is shown to your matches first. Max 5MB
+              each.
+            </p>
           </div>
 
           {/* Age */}
@@ -207,20 +446,16 @@ function ProfilePage() {
             )}
           </div>
 
-          {/* Gender */}
+          {/* Gender Identity */}
           <div className="space-y-2">
             <label className="text-lg font-bold">I am *</label>
-            <div className="grid grid-cols-3 gap-3">
-              {[
-                { value: 'male', label: 'Male' },
-                { value: 'female', label: 'Female' },
-                { value: 'other', label: 'Other' },
-              ].map((option) => (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {GENDER_IDENTITIES.map((option) => (
                 <button
-                  key={option.value}
-                  onClick={() => setGender(option.value)}
-                  className={`py-4 px-6 border-2 border-black font-bold transition-all ${
-                    gender === option.value
+                  key={option.id}
+                  onClick={() => setGenderIdentity(option.id)}
+                  className={`py-3 px-4 border-2 border-black font-bold transition-all ${
+                    genderIdentity === option.id
                       ? 'bg-black text-white'
                       : 'bg-white text-black hover:bg-gray-50'
                   }`}
@@ -231,20 +466,111 @@ function ProfilePage() {
             </div>
           </div>
 
-          {/* Gender Preference */}
+          {/* Interested In */}
           <div className="space-y-2">
-            <label className="text-lg font-bold">Interested in *</label>
-            <div className="grid grid-cols-3 gap-3">
+            <div className="flex justify-between items-center">
+              <label className="text-lg font-bold">Interested in *</label>
+              <button
+                onClick={() =>
+                  setInterestedIn(
+                    isInterestedInEveryone ? [] : GENDER_IDENTITIES.map((option) => option.id)
+                  )
+                }
+                className="text-sm font-bold underline"
+              >
+                {isInterestedInEveryone ? 'Clear' : 'Everyone'}
+              </button>
+            </div>
+            <p className="text-sm text-muted-foreground">Pick everyone you'd like to meet</p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {GENDER_IDENTITIES.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => toggleInterestedIn(option.id)}
+                  className={`py-3 px-4 border-2 border-black font-bold transition-all ${
+                    interestedIn.includes(option.id)
+                      ? 'bg-black text-white'
+                      : 'bg-white text-black hover:bg-gray-50'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Age Range Preference */}
+          <div className="space-y-2">
+            <label className="text-lg font-bold">Age range</label>
+            <div className="flex items-center gap-3">
+              <Input
+                type="number"
+                placeholder="Min"
+                value={minAgePreference}
+                onChange={(e) => setMinAgePreference(e.target.value)}
+                min="18"
+                max="100"
+              />
+              <span className="font-bold">to</span>
+              <Input
+                type="number"
+                placeholder="Max"
+                value={maxAgePreference}
+                onChange={(e) => setMaxAgePreference(e.target.value)}
+                min="18"
+                max="100"
+              />
+            </div>
+            {!isAgeRangeValid && (
+              <p className="text-sm text-destructive">
+                Minimum age cannot be above the maximum
+              </p>
+            )}
+          </div>
+
+          {/* Distance Preference */}
+          <div className="space-y-2">
+            <label className="text-lg font-bold">Distance</label>
+            <div className="flex items-center gap-4">
+              <Button
+                variant="outline"
+                onClick={handleUseLocation}
+                className="gap-2"
+                disabled={isLocating}
+              >
+                {isLocating ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <MapPin className="h-4 w-4" />
+                )}
+                {location ? 'Update Location' : 'Use My Location'}
+              </Button>
+              {location && (
+                <Button variant="outline" onClick={handleClearLocation} className="gap-2">
+                  <X className="h-4 w-4" />
+                  Clear Location
+                </Button>
+              )}
+              <p className="text-sm text-muted-foreground">
+                {location
+                  ? 'Approximate location saved'
+                  : 'Only an approximate location is stored'}
+              </p>
+            </div>
+            <div className="grid grid-cols-5 gap-3">
               {[
-                { value: 'male', label: 'Men' },
-                { value: 'female', label: 'Women' },
-                { value: 'both', label: 'Everyone' },
+                { value: '10', label: '10 km' },
+                { value: '25', label: '25 km' },
+                { value: '50', label: '50 km' },
+                { value: '100', label: '100 km' },
+                { value: '', label: 'Anywhere' },
               ].map((option) => (
                 <button
-                  key={option.value}
-                  onClick={() => setGenderPreference(option.value)}
-                  className={`py-4 px-6 border-2 border-black font-bold transition-all ${
-                    genderPreference === option.value
+                  key={option.label}
+                  onClick={() => setMaxDistanceKm(option.value)}
+                  disabled={!location && option.value !== ''}
+                  className={`py-4 px-2 border-2 border-black font-bold transition-all disabled:opacity-40 ${
+                    maxDistanceKm === option.value
                       ? 'bg-black text-white'
                       : 'bg-white text-black hover:bg-gray-50'
                   }`}
@@ -273,6 +599,113 @@ function ProfilePage() {
             />
           </div>
 
+          {/* Interests */}
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className="text-lg font-bold">Interests</label>
+              <span className="text-sm text-muted-foreground">
+                {interests.length}/{MAX_INTERESTS}
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {INTERESTS.map((interest) => (
+                <button
+                  key={interest.id}
+                  onClick={() => toggleInterest(interest.id)}
+                  disabled={!interests.includes(interest.id) && interests.length >= MAX_INTERESTS}
+                  className={`py-2 px-4 border-2 border-black text-sm font-bold transition-all disabled:opacity-40 ${
+                    interests.includes(interest.id)
+                      ? 'bg-black text-white'
+                      : 'bg-white text-black hover:bg-gray-50'
+                  }`}
+                >
+                  {interest.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Questionnaire */}
+          <div className="space-y-4">
+            <div>
+              <label className="text-lg font-bold">Quick questions</label>
+              <p className="text-sm text-muted-foreground">
+                We use your answers to pair you with people you'll click with
+              </p>
+            </div>
+            {QUESTIONS.map((question) => (
+              <div key={question.id} className="space-y-2">
+                <p className="font-bold">{question.question}</p>
+                <div className="flex flex-wrap gap-2">
+                  {question.options.map((option) => (
+                    <button
+                      key={option.id}
+                      onClick={() =>
+                        setAnswers((prev) => ({ ...prev, [question.id]: option.id }))
+                      }
+                      className={`py-2 px-4 border-2 border-black text-sm font-bold transition-all ${
+                        answers[question.id] === option.id
+                          ? 'bg-black text-white'
+                          : 'bg-white text-black hover:bg-gray-50'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Email Preferences */}
+          <div className="space-y-2">
+            <label className="text-lg font-bold">Email me about</label>
+            <p className="text-sm text-muted-foreground">
+              Sent to {profile.email}
+            </p>
+            {[
+              { key: 'chatRequests' as const, label: "Chat requests I haven't answered" },
+              { key: 'dailyDigest' as const, label: 'A daily digest of what I missed' },
+            ].map((option) => (
+              <label key={option.key} className="flex items-center gap-2 font-bold">
+                <input
+                  type="checkbox"
+                  checked={emailPreferences[option.key]}
+                  onChange={(e) =>
+                    setEmailPreferences((prev) => ({ ...prev, [option.key]: e.target.checked }))
+                  }
+                  className="h-4 w-4 accent-black"
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+
+          {/* Browser Notifications */}
+          {pushSupported && (
+            <div className="space-y-2">
+              <label className="text-lg font-bold">Browser notifications</label>
+              <div className="flex items-center gap-4">
+                <Button
+                  variant="outline"
+                  onClick={handleTogglePush}
+                  className="gap-2"
+                  disabled={isTogglingPush}
+                >
+                  {isTogglingPush ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <BellRing className="h-4 w-4" />
+                  )}
+                  {pushEnabled ? 'Turn Off' : 'Turn On'}
+                </Button>
+                <p className="text-sm text-muted-foreground">
+                  Get notified about matches, chat requests and messages while you're away
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex gap-4 pt-4">
             <Button
@@ -1,10 +1,14 @@
 import { createFileRoute, useNavigate, Link } from '@tanstack/react-router';
 import { Button } from '@/components/ui/button';
 import { useUser } from '@clerk/tanstack-react-start';
-import { useQuery } from 'convex/react';
+import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../../convex/_generated/api';
 import { Id } from '../../../convex/_generated/dataModel';
-import { Loader2, ArrowLeft, User, MessageCircle } from 'lucide-react';
+import { useState } from 'react';
+import { Loader2, ArrowLeft, User, MessageCircle, Heart, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatTimeLeft } from '@/lib/utils';
+import { getGenderLabel } from '../../../convex/genders';
 
 export const Route = createFileRoute('/profile/$userId')({
   component: ProfileViewPage,
@@ -14,9 +18,12 @@ function ProfileViewPage() {
   const { userId } = Route.useParams();
   const navigate = useNavigate();
   const { isSignedIn, isLoaded } = useUser();
-
-  // We'll need to create a query to fetch user profiles
-  // For now, let's show a coming soon message
+  const profile = useQuery(api.profile.getMatchedProfile, {
+    userId: userId as Id<"users">,
+  });
+  const sendRequest = useMutation(api.chatRequests.send);
+  const cancelRequest = useMutation(api.chatRequests.cancel);
+  const [selectedPhoto, setSelectedPhoto] = useState(0);
 
   // Redirect to login if not authenticated
   if (isLoaded && !isSignedIn) {
@@ -24,32 +31,188 @@ function ProfileViewPage() {
     return null;
   }
 
-  return (
-    <div className="min-h-screen bg-white">
-      {/* Header */}
-      <div className="border-b-2 border-black px-6 py-4 bg-white">
-        <div className="max-w-4xl mx-auto flex items-center gap-4">
-          <Link to="/matches">
-            <Button variant="outline" size="sm" className="gap-2">
-              <ArrowLeft className="h-4 w-4" />
-              Back to Matches
-            </Button>
-          </Link>
-          <h1 className="text-2xl font-bold">Profile</h1>
+  const handleSendRequest = async (matchId: Id<"matches">) => {
+    try {
+      await sendRequest({ matchId });
+      toast.success('Chat request sent!');
+    } catch (error: any) {
+      console.error('Error sending request:', error);
+      toast.error(error?.message || 'Failed to send request');
+    }
+  };
+
+  const handleCancelRequest = async (requestId: Id<"chatRequests">) => {
+    try {
+      await cancelRequest({ requestId });
+      toast.success('Chat request cancelled');
+    } catch (error: any) {
+      console.error('Error cancelling request:', error);
+      toast.error(error?.message || 'Failed to cancel request');
+    }
+  };
+
+  const header = (
+    <div className="border-b-2 border-black px-6 py-4 bg-white">
+      <div className="max-w-4xl mx-auto flex items-center gap-4">
+        <Link to="/matches">
+          <Button variant="outline" size="sm" className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Matches
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-bold">Profile</h1>
+      </div>
+    </div>
+  );
+
+  // Loading state
+  if (!isLoaded || profile === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+          <p className="text-muted-foreground">Loading profile...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Not matched with this user (or they are no longer available)
+  if (profile === null) {
+    return (
+      <div className="min-h-screen bg-white">
+        {header}
+        <div className="max-w-4xl mx-auto px-6 py-8">
+          <div className="text-center py-16">
+            <User className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+            <h2 className="text-2xl font-bold mb-2">Profile Unavailable</h2>
+            <p className="text-muted-foreground">
+              You can only see the profiles of people you've matched with.
+            </p>
+          </div>
         </div>
       </div>
+    );
+  }
+
+  const photos = profile.photos ?? [];
+
+  return (
+    <div className="min-h-screen bg-white">
+      {header}
 
       {/* Content */}
       <div className="max-w-4xl mx-auto px-6 py-8">
-        <div className="text-center py-16">
-          <User className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
-          <h2 className="text-2xl font-bold mb-2">Profile View</h2>
-          <p className="text-muted-foreground mb-6">
-            View matched user profiles (Coming Soon)
-          </p>
-          <p className="text-sm text-muted-foreground">
-            For now, you can see profiles in the chat when you match!
-          </p>
+        <div className="grid gap-8 md:grid-cols-2">
+          {/* Photos */}
+          <div className="space-y-4">
+            <div className="aspect-square border-4 border-black shadow-3d overflow-hidden bg-gray-100 flex items-center justify-center">
+              {photos.length > 0 ? (
+                <img
+                  src={photos[selectedPhoto] ?? photos[0]}
+                  alt={profile.name}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <User className="h-24 w-24 text-muted-foreground" />
+              )}
+            </div>
+            {photos.length > 1 && (
+              <div className="grid grid-cols-6 gap-2">
+                {photos.map((photo, index) => (
+                  <button
+                    key={photo}
+                    onClick={() => setSelectedPhoto(index)}
+                    className={`aspect-square border-2 border-black overflow-hidden ${
+                      selectedPhoto === index ? 'ring-4 ring-black/30' : 'opacity-70'
+                    }`}
+                  >
+                    <img
+                      src={photo}
+                      alt={`${profile.name} ${index + 1}`}
+                      className="w-full h-full object-cover"
+                    />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Info */}
+          <div className="space-y-6">
+            <div>
+              <h2 className="text-4xl font-bold">{profile.name || 'Anonymous'}</h2>
+              <p className="text-lg text-muted-foreground mt-1">
+                {profile.age ? `${profile.age} years old` : 'Age not set'}
+                {profile.genderIdentity && ` • ${getGenderLabel(profile.genderIdentity)}`}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-lg font-bold">About</h3>
+              {profile.bio ? (
+                <p className="whitespace-pre-wrap">{profile.bio}</p>
+              ) : (
+                <p className="text-muted-foreground italic">No bio yet</p>
+              )}
+            </div>
+
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Heart className="h-4 w-4" />
+              Matched{' '}
+              {new Date(profile.matchedAt).toLocaleDateString([], {
+                month: 'short',
+                day: 'numeric',
+                year: 'numeric',
+              })}
+            </p>
+
+            {/* Action */}
+            {profile.hasActiveChat ? (
+              <Link to="/chat/$chatId" params={{ chatId: profile.chatSessionId }}>
+                <Button size="lg" className="w-full gap-2">
+                  <MessageCircle className="h-4 w-4" />
+                  Open Chat
+                </Button>
+              </Link>
+            ) : profile.hasPendingRequest && profile.isRequestSender ? (
+              <div className="flex gap-2">
+                <Button size="lg" variant="outline" className="flex-1" disabled>
+                  {profile.requestExpiresAt
+                    ? `Pending • expires in ${formatTimeLeft(profile.requestExpiresAt)}`
+                    : 'Request Pending...'}
+                </Button>
+                {profile.pendingRequestId && (
+                  <Button
+                    size="lg"
+                    variant="outline"
+                    onClick={() => handleCancelRequest(profile.pendingRequestId!)}
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            ) : profile.hasPendingRequest ? (
+              <Link to="/notifications">
+                <Button size="lg" variant="outline" className="w-full">
+                  Incoming Request • Respond
+                </Button>
+              </Link>
+            ) : profile.requestCooldownEndsAt ? (
+              <Button size="lg" variant="outline" className="w-full" disabled>
+                Declined • ask again in {formatTimeLeft(profile.requestCooldownEndsAt)}
+              </Button>
+            ) : (
+              <Button
+                size="lg"
+                className="w-full gap-2"
+                onClick={() => handleSendRequest(profile.matchId)}
+              >
+                <Send className="h-4 w-4" />
+                Request Chat
+              </Button>
+            )}
+          </div>
         </div>
       </div>
     </div>